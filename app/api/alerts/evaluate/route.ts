@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { evaluateAlerts } from "@/lib/alerts";
+import { httpStatusFor } from "@/lib/providers";
+
+/**
+ * Evaluate alert rules now instead of waiting for the scheduler
+ */
+export async function POST() {
+  try {
+    const events = await evaluateAlerts();
+    return NextResponse.json({ events, count: events.length });
+  } catch (error: unknown) {
+    console.error("Error in alert evaluation API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to evaluate alerts";
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: httpStatusFor(error) }
+    );
+  }
+}
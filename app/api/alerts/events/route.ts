@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { listAlertEvents } from "@/lib/alerts";
+
+/**
+ * Alert history, newest first
+ * ?since=<ms> returns only newer events; ?channel=browser only events meant for desktop notifications
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const since = searchParams.get("since");
+  const sinceMs = since ? Number(since) : undefined;
+  if (sinceMs !== undefined && !isFinite(sinceMs)) {
+    return NextResponse.json({ error: "since must be a timestamp in ms" }, { status: 400 });
+  }
+  const channel = searchParams.get("channel");
+
+  try {
+    const events = (await listAlertEvents(sinceMs, 200)).filter(
+      (e) => !channel || e.deliveries.some((d) => d.channel === channel)
+    );
+    return NextResponse.json({ events, count: events.length });
+  } catch (error: unknown) {
+    console.error("Error listing alert events:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to list alert events";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
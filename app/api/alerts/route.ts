@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import {
+  deleteAlertRule,
+  listAlertEvents,
+  listAlertRules,
+  saveAlertRule,
+  validateAlertRule,
+} from "@/lib/alerts";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { AlertRule } from "@/lib/types";
+
+export async function GET() {
+  try {
+    const [rules, events] = await Promise.all([listAlertRules(), listAlertEvents(undefined, 50)]);
+    return NextResponse.json({ rules, events });
+  } catch (error: unknown) {
+    console.error("Error listing alerts:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to list alerts";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * Create or update a rule; a rule without an id gets a new one
+ */
+export async function POST(request: Request) {
+  try {
+    let body: Partial<AlertRule>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be an alert rule" }, { status: 400 });
+    }
+
+    const rule = {
+      ...body,
+      id: body.id || randomUUID(),
+      enabled: body.enabled ?? true,
+    } as AlertRule;
+
+    const errors = validateAlertRule(rule);
+    if (typeof rule.profile === "string") {
+      if (!(await getIndexProfile(rule.profile))) {
+        errors.push(`Unknown index profile: ${rule.profile}`);
+      }
+    } else if (rule.profile !== undefined) {
+      errors.push("profile must be a string");
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid alert rule: ${errors.join("; ")}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveAlertRule(rule);
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error saving alert rule:", error);
+    return NextResponse.json({ error: "Failed to save alert rule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteAlertRule(id))) {
+      return NextResponse.json({ error: `Unknown alert rule: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error: unknown) {
+    console.error("Error deleting alert rule:", error);
+    return NextResponse.json({ error: "Failed to delete alert rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import {
+  Timespan,
+  getDaysFromTimespan,
+  fetchIndexHistoryInputs,
+  computeIndexHistory,
+  parseHistoryOptions,
+  IndexHistoryOptions,
+} from "@/lib/index-history";
+import { httpStatusFor } from "@/lib/providers";
+import {
+  AnalyticsOptions,
+  DEFAULT_ANALYTICS_OPTIONS,
+  analyzeIndexHistory,
+  validateAnalyticsOptions,
+} from "@/lib/analytics";
+
+function parseNumber(value: string | null, fallback: number): number {
+  return value === null || value === "" ? fallback : Number(value);
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const timespan = (searchParams.get("timespan") || "ALL") as Timespan;
+    if (timespan !== "1Y" && timespan !== "ALL") {
+      // Forward returns are measured in days, so intraday windows don't apply
+      return NextResponse.json(
+        { error: "timespan must be 1Y or ALL" },
+        { status: 400 }
+      );
+    }
+    const days = getDaysFromTimespan(timespan);
+
+    const windows = searchParams.get("windows");
+    const analyticsOptions: Required<AnalyticsOptions> = {
+      horizon: parseNumber(searchParams.get("horizon"), DEFAULT_ANALYTICS_OPTIONS.horizon),
+      maxLag: parseNumber(searchParams.get("maxLag"), DEFAULT_ANALYTICS_OPTIONS.maxLag),
+      windows: windows
+        ? windows.split(",").map((w) => Number(w.trim()))
+        : DEFAULT_ANALYTICS_OPTIONS.windows,
+    };
+
+    // Analytics default to point-in-time z-scores so the index never sees the returns it is scored against
+    let options: IndexHistoryOptions;
+    try {
+      options = await parseHistoryOptions(searchParams);
+    } catch (paramError: unknown) {
+      const message =
+        paramError instanceof Error ? paramError.message : "Invalid parameters";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const validationError = validateAnalyticsOptions(analyticsOptions);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const inputs = await fetchIndexHistoryInputs(
+      days,
+      options.config,
+      options.asset,
+      options.mode
+    );
+    const history = computeIndexHistory(inputs, options);
+
+    if (history.length < analyticsOptions.horizon + 2) {
+      return NextResponse.json(
+        { error: "Insufficient history for correlation analysis" },
+        { status: 503 }
+      );
+    }
+
+    const result = analyzeIndexHistory(history, analyticsOptions);
+
+    return NextResponse.json({
+      ...result,
+      timespan,
+      mode: options.mode,
+      windowDays: options.windowDays ?? null,
+      profile: options.config?.name,
+      asset: options.asset?.id,
+    });
+  } catch (error: unknown) {
+    console.error("Error in analytics API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to compute analytics";
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: httpStatusFor(error) }
+    );
+  }
+}
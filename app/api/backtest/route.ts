@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import {
+  Timespan,
+  getDaysFromTimespan,
+  parseTimespan,
+  fetchIndexHistoryInputs,
+  computeIndexHistory,
+  parseHistoryOptions,
+  IndexHistoryOptions,
+} from "@/lib/index-history";
+import { httpStatusFor } from "@/lib/providers";
+import {
+  DEFAULT_BACKTEST_RULES,
+  runBacktest,
+  validateBacktestRules,
+} from "@/lib/backtest";
+import { BacktestRules } from "@/lib/types";
+
+function parseNumber(value: string | null, fallback: number): number {
+  return value === null || value === "" ? fallback : Number(value);
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const shortBelow = searchParams.get("shortBelow");
+    const rules: BacktestRules = {
+      longAbove: parseNumber(searchParams.get("longAbove"), DEFAULT_BACKTEST_RULES.longAbove),
+      flatBelow: parseNumber(searchParams.get("flatBelow"), DEFAULT_BACKTEST_RULES.flatBelow),
+      feeBps: parseNumber(searchParams.get("feeBps"), DEFAULT_BACKTEST_RULES.feeBps),
+      ...(shortBelow ? { shortBelow: Number(shortBelow) } : {}),
+    };
+
+    // Backtests default to point-in-time z-scores so signals never see future data
+    let timespan: Timespan;
+    let options: IndexHistoryOptions;
+    try {
+      timespan = parseTimespan(searchParams.get("timespan"), "ALL");
+      options = await parseHistoryOptions(searchParams);
+    } catch (paramError: unknown) {
+      const message =
+        paramError instanceof Error ? paramError.message : "Invalid parameters";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const validationError = validateBacktestRules(rules);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const inputs = await fetchIndexHistoryInputs(
+      getDaysFromTimespan(timespan),
+      options.config,
+      options.asset,
+      options.mode
+    );
+    const history = computeIndexHistory(inputs, options);
+
+    if (history.length < 2) {
+      return NextResponse.json(
+        { error: "Insufficient history to run a backtest" },
+        { status: 503 }
+      );
+    }
+
+    const result = runBacktest(history, rules);
+
+    return NextResponse.json({
+      ...result,
+      timespan,
+      mode: options.mode,
+      windowDays: options.windowDays ?? null,
+      profile: options.config?.name,
+      asset: options.asset?.id,
+    });
+  } catch (error: unknown) {
+    console.error("Error in backtest API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to run backtest";
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: httpStatusFor(error) }
+    );
+  }
+}
@@ -1,156 +1,84 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
-import { calculateBitcoinDirectionIndex, calculateCorrelation } from '@/lib/index-calculation';
+import { forwardReturnCorrelation } from '@/lib/analytics';
+import { getAsset } from '@/lib/assets';
+import { assessDataQuality } from '@/lib/data-quality';
+import { computeIndexHistory, withLiquidityModel } from '@/lib/index-history';
+import { getIndexProfile } from '@/lib/index-profiles';
+import { latestLiquidityData } from '@/lib/liquidity';
+import { computeLiveIndex } from '@/lib/live-index';
+import { toPMIData } from '@/lib/pmi';
+import { httpStatusFor } from '@/lib/providers';
 import { DashboardData } from '@/lib/types';
 
-const FRED_API_KEY = process.env.FRED_API_KEY || 'demo';
-
-async function fetchFREDSeries(seriesId: string) {
-  try {
-    const response = await axios.get('https://api.stlouisfed.org/fred/series/observations', {
-      params: {
-        series_id: seriesId,
-        api_key: FRED_API_KEY,
-        file_type: 'json',
-        limit: 365,
-        sort_order: 'desc',
-      },
-    });
-
-    return response.data.observations
-      .filter((obs: any) => obs.value !== '.')
-      .map((obs: any) => ({
-        date: obs.date,
-        value: parseFloat(obs.value),
-      }))
-      .reverse();
-  } catch (error) {
-    console.error(`Error fetching ${seriesId}:`, error);
-    return [];
-  }
-}
-
-async function fetchBitcoinPrice() {
+export async function GET(request: Request) {
   try {
-    const response = await axios.get('https://api.exchange.coinbase.com/products/BTC-USD/stats');
-    const tickerResponse = await axios.get('https://api.coinbase.com/v2/exchange-rates?currency=BTC');
-    
-    const currentPrice = parseFloat(response.data.last);
-    const openPrice = parseFloat(response.data.open);
-    const change24h = ((currentPrice - openPrice) / openPrice) * 100;
-
-    return {
-      price: currentPrice,
-      timestamp: Date.now(),
-      change24h,
-    };
-  } catch (error) {
-    console.error('Error fetching Bitcoin price:', error);
-    throw error;
-  }
-}
-
-async function fetchPMI() {
-  try {
-    const response = await axios.get('https://api.stlouisfed.org/fred/series/observations', {
-      params: {
-        series_id: 'NAPM',
-        api_key: FRED_API_KEY,
-        file_type: 'json',
-        limit: 12,
-        sort_order: 'desc',
-      },
-    });
-
-    const observations = response.data.observations
-      .filter((obs: any) => obs.value !== '.')
-      .map((obs: any) => parseFloat(obs.value));
-
-    if (observations.length > 0) {
-      return {
-        value: observations[observations.length - 1],
-        date: response.data.observations[response.data.observations.length - 1].date,
-        change: observations.length > 1 ? observations[observations.length - 1] - observations[observations.length - 2] : 0,
-      };
+    const { searchParams } = new URL(request.url);
+    const profile = searchParams.get('profile');
+    const profileConfig = await getIndexProfile(profile);
+    if (!profileConfig) {
+      return NextResponse.json(
+        { error: `Unknown index profile: ${profile}` },
+        { status: 400 }
+      );
     }
-  } catch (error) {
-    console.error('Error fetching PMI:', error);
-  }
 
-  // Fallback
-  return {
-    value: 50,
-    date: new Date().toISOString().split('T')[0],
-    change: 0,
-  };
-}
-
-export async function GET() {
-  try {
-    // Fetch all data in parallel
-    const [fedData, tgaData, rrpData, btcPrice, pmi] = await Promise.all([
-      fetchFREDSeries('WALCL'),
-      fetchFREDSeries('WTREGEN'),
-      fetchFREDSeries('RRPONTSYD'),
-      fetchBitcoinPrice(),
-      fetchPMI(),
-    ]);
-
-    // Calculate liquidity
-    const latestFed = fedData[fedData.length - 1];
-    const latestTGA = tgaData[tgaData.length - 1];
-    const latestRRP = rrpData[rrpData.length - 1];
-
-    const liquidity = {
-      fedBalanceSheet: latestFed.value,
-      tga: latestTGA.value,
-      rrp: latestRRP.value,
-      liquidity: latestFed.value - latestTGA.value - latestRRP.value,
-      date: latestFed.date,
-    };
-
-    // Prepare historical data for index calculation
-    const liquidityHistory = fedData.map((f: { date: string; value: number }, i: number) => {
-      const tgaVal = tgaData[i]?.value || 0;
-      const rrpVal = rrpData[i]?.value || 0;
-      return f.value - tgaVal - rrpVal;
-    });
+    // ?asset=eth|sol|... scores another asset with the same macro model; BTC by default
+    const assetId = searchParams.get('asset');
+    const asset = getAsset(assetId);
+    if (!asset) {
+      return NextResponse.json({ error: `Unknown asset: ${assetId}` }, { status: 400 });
+    }
 
-    const pmiHistory = Array(12).fill(pmi.value); // Simplified - in production, fetch historical PMI
+    // ?liquidity=us|global overrides the profile's liquidity model
+    let config;
+    try {
+      config = withLiquidityModel(profileConfig, searchParams.get('liquidity'));
+    } catch (paramError: unknown) {
+      const message = paramError instanceof Error ? paramError.message : 'Invalid parameters';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
 
-    // For BTC price history, we'll use a simplified approach
-    // In production, you'd fetch historical prices
-    const btcPriceHistory = Array(30).fill(btcPrice.price); // Placeholder
+    const { btcPrice, inputs, date, directionIndex, staleness, consistency } =
+      await computeLiveIndex(config, asset);
+    const quality = assessDataQuality(inputs, { asOf: date, config, directionIndex, btcPrice });
+    if (quality.degraded) {
+      console.warn('Dashboard index computed from degraded inputs:', quality.issues);
+    }
 
-    // Calculate direction index
-    const directionIndex = calculateBitcoinDirectionIndex(
-      liquidity,
-      liquidityHistory,
-      pmi,
-      pmiHistory,
-      btcPrice,
-      btcPriceHistory
+    // Latest reading of the profile's liquidity model, broken down by component
+    const liquidity = latestLiquidityData(
+      inputs.fedData,
+      inputs.tgaData,
+      inputs.rrpData,
+      inputs.liquidityComponents,
+      config.liquidityModel ?? 'us'
     );
 
-    // Calculate correlation (simplified - would need historical index values)
-    // For now, we'll return 0 as placeholder
-    const correlation = 0;
+    // Manual entries take precedence over the NAPM proxy
+    const pmi = toPMIData(inputs.pmiHistory);
+
+    // Index vs 30-day forward returns over the same year of history
+    const correlation = forwardReturnCorrelation(
+      computeIndexHistory(inputs, { config })
+    ).correlation;
 
     const dashboardData: DashboardData = {
+      asset: asset.id,
       bitcoinPrice: btcPrice,
       liquidity,
       pmi,
       directionIndex,
       correlation,
+      consistency,
+      staleness,
+      quality,
     };
 
     return NextResponse.json(dashboardData);
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error in dashboard API:', error);
-    return NextResponse.json(
-      { error: error.message || 'Failed to fetch dashboard data' },
-      { status: 500 }
-    );
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch dashboard data';
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
   }
 }
 
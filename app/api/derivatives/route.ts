@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getAsset } from "@/lib/assets";
+import { fetchPositioning } from "@/lib/derivatives";
+import { getFactor, toCrowdingSeries, toFactorSeries } from "@/lib/factors";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { DERIVATIVES_PROVIDER_NAME, httpStatusFor } from "@/lib/providers";
+
+// Days of positioning returned for the chart; the factor is z-scored against a year
+const HISTORY_DAYS = 90;
+const FACTOR_HISTORY_DAYS = 365;
+
+/**
+ * Funding, open interest and basis of an asset with its contrarian positioning reading
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const assetId = searchParams.get("asset");
+  const asset = getAsset(assetId);
+  if (!asset) {
+    return NextResponse.json({ error: `Unknown asset: ${assetId}` }, { status: 400 });
+  }
+  const profile = searchParams.get("profile");
+  const config = await getIndexProfile(profile);
+  if (!config) {
+    return NextResponse.json({ error: `Unknown index profile: ${profile}` }, { status: 400 });
+  }
+
+  try {
+    const points = await fetchPositioning(asset, FACTOR_HISTORY_DAYS);
+    const latest = points[points.length - 1];
+    if (!latest) {
+      return NextResponse.json(
+        { error: `No ${asset.symbol} derivatives data available` },
+        { status: 404 }
+      );
+    }
+
+    const factor = getFactor("positioning")!;
+    const series = toFactorSeries(factor, toCrowdingSeries(points));
+    if (!series) {
+      return NextResponse.json(
+        { error: `Not enough ${asset.symbol} derivatives history to score positioning yet` },
+        { status: 404 }
+      );
+    }
+    const normalization = factor.normalize(series, config);
+
+    return NextResponse.json({
+      provider: DERIVATIVES_PROVIDER_NAME,
+      asset: asset.id,
+      latest,
+      history: points.slice(-HISTORY_DAYS),
+      factor: {
+        ...normalization,
+        reading: factor.describe(normalization),
+        weight: config.weights.positioning ?? 0,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in derivatives API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to fetch derivatives data";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { listFactors } from "@/lib/factors";
+
+export async function GET() {
+  const factors = listFactors().map(({ id, label, description }) => ({
+    id,
+    label,
+    description,
+  }));
+  return NextResponse.json({ factors, count: factors.length });
+}
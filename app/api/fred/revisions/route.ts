@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { shiftDate } from "@/lib/publication-lag";
+import { httpStatusFor } from "@/lib/providers";
+import { fetchUSLiquidityVintages, liquidityRevisionReport } from "@/lib/vintages";
+
+/**
+ * How far past US net liquidity readings moved between first release and today's vintage
+ * `?days=` sets how many days of readings to report (365 by default)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const days = Number(searchParams.get("days") || 365);
+  if (!Number.isInteger(days) || days < 1) {
+    return NextResponse.json(
+      { error: "days must be a whole number of days (at least 1)" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const asOf = new Date().toISOString().split("T")[0];
+    const vintages = await fetchUSLiquidityVintages();
+    return NextResponse.json(liquidityRevisionReport(vintages, shiftDate(asOf, -days), asOf));
+  } catch (error: unknown) {
+    console.error("Error in FRED revisions API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to build the revision report";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
@@ -1,42 +1,8 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
-
-const FRED_API_KEY = process.env.FRED_API_KEY || 'demo'; // Users need to get their own key from https://fred.stlouisfed.org/docs/api/api_key.html
-
-interface FREDObservation {
-  date: string;
-  value: string;
-}
-
-interface FREDResponse {
-  observations: FREDObservation[];
-}
-
-async function fetchFREDSeries(seriesId: string): Promise<{ date: string; value: number }[]> {
-  try {
-    const url = `https://api.stlouisfed.org/fred/series/observations`;
-    const params = {
-      series_id: seriesId,
-      api_key: FRED_API_KEY,
-      file_type: 'json',
-      limit: 365, // Get last year of data
-      sort_order: 'desc',
-    };
-
-    const response = await axios.get<FREDResponse>(url, { params });
-    
-    return response.data.observations
-      .filter(obs => obs.value !== '.')
-      .map(obs => ({
-        date: obs.date,
-        value: parseFloat(obs.value),
-      }))
-      .reverse(); // Reverse to get chronological order
-  } catch (error) {
-    console.error(`Error fetching FRED series ${seriesId}:`, error);
-    throw error;
-  }
-}
+import { httpStatusFor } from '@/lib/providers';
+import { fetchUSLiquiditySeries } from '@/lib/liquidity';
+import { getSeriesMetadata } from '@/lib/series-catalog';
+import { getFREDSeries } from '@/lib/store';
 
 export async function GET(request: Request) {
   try {
@@ -44,12 +10,13 @@ export async function GET(request: Request) {
     const series = searchParams.get('series') || 'all';
 
     if (series === 'all') {
-      // Fetch all three series in parallel
-      const [fedBalanceSheet, tga, rrp] = await Promise.all([
-        fetchFREDSeries('WALCL'), // Fed Balance Sheet
-        fetchFREDSeries('WTREGEN'), // Treasury General Account
-        fetchFREDSeries('RRPONTSYD'), // Reverse Repo (Overnight)
-      ]);
+      // Fed Balance Sheet, Treasury General Account and Reverse Repo (Overnight),
+      // converted to millions of USD (FRED publishes the RRP in billions)
+      const {
+        fedData: fedBalanceSheet,
+        tgaData: tga,
+        rrpData: rrp,
+      } = await fetchUSLiquiditySeries(365);
 
       // Get the latest values
       const latestFed = fedBalanceSheet[fedBalanceSheet.length - 1];
@@ -76,18 +43,20 @@ export async function GET(request: Request) {
           current: liquidity,
           date: latestFed.date,
         },
+        units: 'Millions of U.S. Dollars',
       });
     } else {
       // Fetch single series
-      const data = await fetchFREDSeries(series);
-      return NextResponse.json({ data });
+      // Observations as published, with the units needed to interpret them
+      const [data, metadata] = await Promise.all([
+        getFREDSeries(series, 365),
+        getSeriesMetadata(series),
+      ]);
+      return NextResponse.json({ data, metadata });
     }
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error in FRED API route:', error);
-    return NextResponse.json(
-      { error: error.message || 'Failed to fetch FRED data' },
-      { status: 500 }
-    );
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch FRED data';
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
   }
 }
-
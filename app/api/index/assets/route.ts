@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { ASSETS } from "@/lib/assets";
+import { withLiquidityModel } from "@/lib/index-history";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { computeLiveIndex } from "@/lib/live-index";
+import { AssetIndexReading, IndexConfig } from "@/lib/types";
+
+/**
+ * The live index of every supported asset under the same profile
+ * An asset that fails is reported with an error instead of failing the whole response
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const profile = searchParams.get("profile");
+  const profileConfig = await getIndexProfile(profile);
+  if (!profileConfig) {
+    return NextResponse.json({ error: `Unknown index profile: ${profile}` }, { status: 400 });
+  }
+
+  let config: IndexConfig;
+  try {
+    config = withLiquidityModel(profileConfig, searchParams.get("liquidity"));
+  } catch (paramError: unknown) {
+    const message = paramError instanceof Error ? paramError.message : "Invalid parameters";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const assets = await Promise.all(
+    ASSETS.map(async (asset): Promise<AssetIndexReading> => {
+      const reading = { asset: asset.id, symbol: asset.symbol, name: asset.name };
+      try {
+        const { btcPrice, directionIndex, previousClose } = await computeLiveIndex(config, asset);
+        return {
+          ...reading,
+          price: btcPrice,
+          directionIndex,
+          change: previousClose ? directionIndex.index - previousClose.index : null,
+        };
+      } catch (error: unknown) {
+        console.error(`Error computing the ${asset.name} index:`, error);
+        const message = error instanceof Error ? error.message : "Failed to compute index";
+        return { ...reading, price: null, directionIndex: null, change: null, error: message };
+      }
+    })
+  );
+
+  return NextResponse.json({ profile: config.name, assets });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { listIndexProfiles, saveIndexProfile } from "@/lib/index-profiles";
+import { IndexConfig } from "@/lib/types";
+
+export async function GET() {
+  try {
+    const profiles = await listIndexProfiles();
+    return NextResponse.json({ profiles, count: profiles.length });
+  } catch (error: unknown) {
+    console.error("Error listing index profiles:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to list index profiles";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  let config: IndexConfig;
+  try {
+    config = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveIndexProfile(config);
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to save index profile";
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getFactor, ONCHAIN_FACTOR_IDS, toFactorSeries } from "@/lib/factors";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { ONCHAIN_PROVIDER_NAME } from "@/lib/providers";
+import { OnChainReading } from "@/lib/types";
+
+// Two years of daily observations to z-score against
+const HISTORY_LIMIT = 730;
+
+/**
+ * Latest value and z-score of every on-chain factor under a profile's clamp
+ * A metric that fails is reported with an error instead of failing the whole response
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const profile = searchParams.get("profile");
+  const config = await getIndexProfile(profile);
+  if (!config) {
+    return NextResponse.json({ error: `Unknown index profile: ${profile}` }, { status: 400 });
+  }
+
+  const metrics = await Promise.all(
+    ONCHAIN_FACTOR_IDS.map(async (id): Promise<OnChainReading> => {
+      const factor = getFactor(id)!;
+      const reading = { id, label: factor.label, description: factor.description };
+      try {
+        const series = toFactorSeries(factor, await factor.fetchSeries({ limit: HISTORY_LIMIT }));
+        if (!series) {
+          throw new Error(`No ${factor.label} data available`);
+        }
+        const normalization = factor.normalize(series, config);
+        return {
+          ...reading,
+          date: series.date ?? null,
+          value: series.current,
+          zScore: normalization.score,
+          normalized: normalization.normalized,
+          reading: factor.describe(normalization),
+        };
+      } catch (error: unknown) {
+        console.error(`Error loading on-chain factor ${id}:`, error);
+        const message = error instanceof Error ? error.message : "Failed to load metric";
+        return {
+          ...reading,
+          date: null,
+          value: null,
+          zScore: null,
+          normalized: null,
+          reading: null,
+          error: message,
+        };
+      }
+    })
+  );
+
+  return NextResponse.json({
+    provider: ONCHAIN_PROVIDER_NAME,
+    profile: config.name,
+    weights: Object.fromEntries(ONCHAIN_FACTOR_IDS.map((id) => [id, config.weights[id] ?? 0])),
+    metrics,
+  });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { parsePMICSV, savePMIEntries } from '@/lib/pmi';
+
+/**
+ * Import historical ISM prints from a CSV body with a "date,value[,note]" header
+ * The whole file is rejected if any row is invalid
+ */
+export async function POST(request: Request) {
+  let entries;
+  try {
+    entries = parsePMICSV(await request.text());
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid CSV';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+
+  try {
+    const total = await savePMIEntries(entries);
+    return NextResponse.json({ imported: entries.length, total }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error importing PMI CSV:', error);
+    return NextResponse.json({ error: 'Failed to import PMI data' }, { status: 500 });
+  }
+}
@@ -1,84 +1,21 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
+import { getPMIHistory, savePMIEntries, toPMIData, validatePMIEntry } from '@/lib/pmi';
 
 // Note: ISM PMI data is not freely available via API
-// This is a workaround using alternative sources or manual data entry
-// For production, you'd want to use a paid API or scrape ISM's website (with permission)
+// FRED's NAPM series is used as a proxy; enter the monthly ISM print with POST
+// (or import past prints via /api/pmi/import) and it takes precedence
 
-interface PMIData {
-  value: number;
-  date: string;
-  change?: number;
-}
-
-// Alternative: Use Markit PMI or other sources
-// For now, we'll use a mock/fallback approach
-// You can manually update this or integrate with a data provider
-
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    // Option 1: Try to fetch from Trading Economics API (requires key)
-    // Option 2: Use FRED's alternative PMI series if available
-    // Option 3: Manual data entry or web scraping (with proper permissions)
-    
-    // For now, using a placeholder that you can replace with actual data
-    // Check if there's a FRED series for PMI
-    const FRED_API_KEY = process.env.FRED_API_KEY || 'demo';
-    
-    try {
-      // Try to get PMI from FRED (they have some PMI-related series)
-      // Note: ISM PMI might not be directly available, but we can use alternatives
-      const response = await axios.get(
-        'https://api.stlouisfed.org/fred/series/observations',
-        {
-          params: {
-            series_id: 'NAPM', // NAPM is an older PMI series, or use 'MANEMP' for manufacturing employment
-            api_key: FRED_API_KEY,
-            file_type: 'json',
-            limit: 12,
-            sort_order: 'desc',
-          },
-        }
-      );
-
-      const observations = response.data.observations
-        .filter((obs: any) => obs.value !== '.')
-        .map((obs: any) => ({
-          date: obs.date,
-          value: parseFloat(obs.value),
-        }));
+    const { searchParams } = new URL(request.url);
+    const history = await getPMIHistory();
+    const latest = toPMIData(history.slice(-12));
 
-      if (observations.length > 0) {
-        const latest = observations[observations.length - 1];
-        const previous = observations.length > 1 ? observations[observations.length - 2] : latest;
-        const change = latest.value - previous.value;
-
-        return NextResponse.json({
-          value: latest.value,
-          date: latest.date,
-          change: change,
-          source: 'FRED_NAPM',
-          note: 'Using NAPM as proxy. For accurate ISM PMI, consider using a paid data provider or manual entry.',
-        });
-      }
-    } catch (fredError) {
-      console.log('FRED PMI fetch failed, using fallback');
+    if (searchParams.get('history') === 'true') {
+      return NextResponse.json({ ...latest, history });
     }
-
-    // Fallback: Return a placeholder structure
-    // In production, you should:
-    // 1. Get an API key from a data provider (Bloomberg, Quandl, etc.)
-    // 2. Manually update this value monthly from ISM's website
-    // 3. Use web scraping (with proper permissions and rate limiting)
-    
-    return NextResponse.json({
-      value: 50, // Neutral PMI (50 is the threshold)
-      date: new Date().toISOString().split('T')[0],
-      change: 0,
-      source: 'placeholder',
-      note: 'This is placeholder data. Please integrate with a real PMI data source. ISM PMI is published monthly at https://www.ismworld.org/',
-    });
-  } catch (error: any) {
+    return NextResponse.json(latest);
+  } catch (error: unknown) {
     console.error('Error fetching PMI data:', error);
     return NextResponse.json(
       { 
@@ -90,3 +27,30 @@ export async function GET() {
   }
 }
 
+/**
+ * Enter a monthly ISM print: { "date": "2025-01", "value": 49.3, "note"?: string }
+ */
+export async function POST(request: Request) {
+  let body: { date: string; value: number; note?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let entry;
+  try {
+    entry = validatePMIEntry(body, 'manual');
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid PMI entry';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+
+  try {
+    await savePMIEntries([entry]);
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error saving PMI entry:', error);
+    return NextResponse.json({ error: 'Failed to save PMI entry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getRefreshStatus } from "@/lib/refresh";
+import { REFRESH_WORKER_ENABLED } from "@/lib/store";
+
+/**
+ * Last refresh time and error of every source the background worker keeps fresh
+ */
+export async function GET() {
+  try {
+    const sources = await getRefreshStatus();
+    return NextResponse.json({
+      enabled: REFRESH_WORKER_ENABLED,
+      sources,
+      overdue: sources.filter((source) => source.overdue).length,
+    });
+  } catch (error: unknown) {
+    console.error("Error reading refresh status:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to read refresh status";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { httpStatusFor } from "@/lib/providers";
+import {
+  deleteScenario,
+  getScenario,
+  listScenarios,
+  runScenario,
+  runScenarios,
+  saveScenario,
+  validateScenarioOverrides,
+} from "@/lib/scenarios";
+import { ScenarioOverrides } from "@/lib/types";
+
+interface ScenarioRequest {
+  overrides?: ScenarioOverrides;
+  profile?: string;
+  name?: string;
+  description?: string;
+  save?: boolean;
+}
+
+/**
+ * Saved scenarios, each scored against the latest readings for comparison
+ * `?name=` runs a single saved scenario
+ */
+export async function GET(request: Request) {
+  const name = new URL(request.url).searchParams.get("name");
+
+  try {
+    if (name) {
+      const scenario = await getScenario(name);
+      if (!scenario) {
+        return NextResponse.json({ error: `Unknown scenario: ${name}` }, { status: 404 });
+      }
+      const [result] = await runScenarios([scenario]);
+      return NextResponse.json({ scenario, result });
+    }
+
+    const scenarios = await listScenarios();
+    const results = await runScenarios(scenarios);
+    return NextResponse.json({ scenarios, results });
+  } catch (error: unknown) {
+    console.error("Error in scenario API:", error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to run scenarios";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
+
+/**
+ * Score a set of overrides; with `save: true` it is also saved under `name`
+ */
+export async function POST(request: Request) {
+  try {
+    let body: ScenarioRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be a scenario" }, { status: 400 });
+    }
+    if (body.profile !== undefined && typeof body.profile !== "string") {
+      return NextResponse.json({ error: "profile must be a string" }, { status: 400 });
+    }
+
+    const config = await getIndexProfile(body.profile);
+    if (!config) {
+      return NextResponse.json(
+        { error: `Unknown index profile: ${body.profile}` },
+        { status: 400 }
+      );
+    }
+
+    const overrides = body.overrides ?? {};
+    const errors =
+      typeof overrides === "object" && !Array.isArray(overrides)
+        ? validateScenarioOverrides(overrides, config)
+        : ["overrides must be an object"];
+    if (body.name !== undefined && typeof body.name !== "string") {
+      errors.push("name must be a string");
+    } else if (body.save && !body.name?.trim()) {
+      errors.push("name is required to save a scenario");
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid scenario: ${errors.join("; ")}` },
+        { status: 400 }
+      );
+    }
+
+    const name = body.name?.trim() || undefined;
+    const result = await runScenario(overrides, config, name);
+    if (!body.save || !name) {
+      return NextResponse.json({ result });
+    }
+
+    const scenario = await saveScenario({
+      name,
+      ...(body.description ? { description: body.description } : {}),
+      ...(body.profile ? { profile: config.name } : {}),
+      overrides,
+    });
+    return NextResponse.json({ scenario, result }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error in scenario API:", error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to run scenario";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const name = new URL(request.url).searchParams.get("name");
+  if (!name) {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteScenario(name))) {
+      return NextResponse.json({ error: `Unknown scenario: ${name}` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: name });
+  } catch (error: unknown) {
+    console.error("Error deleting scenario:", error);
+    return NextResponse.json({ error: "Failed to delete scenario" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { httpStatusFor } from "@/lib/providers";
+import {
+  compareIndexSnapshots,
+  listIndexSnapshots,
+  readIndexSnapshot,
+  recordIndexSnapshot,
+} from "@/lib/snapshots";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Recorded snapshots compared with the recomputed history
+ * `?date=YYYY-MM-DD` returns that day's full snapshot; otherwise `from`/`to` bound the list
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const profile = searchParams.get("profile") || "default";
+    const date = searchParams.get("date");
+    const from = searchParams.get("from") ?? undefined;
+    const to = searchParams.get("to") ?? undefined;
+
+    const badDate = [date, from, to].find((d) => d && !DATE.test(d));
+    if (badDate) {
+      return NextResponse.json(
+        { error: `Invalid date "${badDate}" (expected YYYY-MM-DD)` },
+        { status: 400 }
+      );
+    }
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(profile)) {
+      return NextResponse.json({ error: `Invalid profile name: ${profile}` }, { status: 400 });
+    }
+
+    if (date) {
+      const snapshot = await readIndexSnapshot(profile, date);
+      if (!snapshot) {
+        return NextResponse.json(
+          { error: `No ${profile} snapshot recorded for ${date}` },
+          { status: 404 }
+        );
+      }
+      const [comparison] = await compareIndexSnapshots([snapshot]);
+      return NextResponse.json({ snapshot, comparison });
+    }
+
+    const snapshots = await listIndexSnapshots(profile, { from, to });
+    const comparisons = await compareIndexSnapshots(snapshots);
+    return NextResponse.json({ profile, count: comparisons.length, comparisons });
+  } catch (error: unknown) {
+    console.error("Error in snapshots API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to load snapshots";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
+
+/**
+ * Record the profile's snapshot now, replacing today's if one was already recorded
+ */
+export async function POST(request: Request) {
+  try {
+    const profile = new URL(request.url).searchParams.get("profile");
+    const config = await getIndexProfile(profile);
+    if (!config) {
+      return NextResponse.json({ error: `Unknown index profile: ${profile}` }, { status: 400 });
+    }
+
+    const snapshot = await recordIndexSnapshot(config);
+    return NextResponse.json(snapshot, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error recording snapshot:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to record snapshot";
+    return NextResponse.json({ error: errorMessage }, { status: httpStatusFor(error) });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getAsset } from "@/lib/assets";
+import { withLiquidityModel } from "@/lib/index-history";
+import { getIndexProfile } from "@/lib/index-profiles";
+import { createLiveStream } from "@/lib/live-stream";
+import { IndexConfig } from "@/lib/types";
+
+/**
+ * Server-sent events with the streaming price of an asset and the live index rescored from it
+ * Takes the same asset, profile and liquidity params as /api/dashboard
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const profile = searchParams.get("profile");
+  const profileConfig = await getIndexProfile(profile);
+  if (!profileConfig) {
+    return NextResponse.json({ error: `Unknown index profile: ${profile}` }, { status: 400 });
+  }
+
+  const assetId = searchParams.get("asset");
+  const asset = getAsset(assetId);
+  if (!asset) {
+    return NextResponse.json({ error: `Unknown asset: ${assetId}` }, { status: 400 });
+  }
+
+  let config: IndexConfig;
+  try {
+    config = withLiquidityModel(profileConfig, searchParams.get("liquidity"));
+  } catch (paramError: unknown) {
+    const message = paramError instanceof Error ? paramError.message : "Invalid parameters";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  return new Response(createLiveStream(asset, config, request.signal), {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
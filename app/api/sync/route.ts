@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_SYNC_SERIES, getStoreStatus, syncAll } from "@/lib/store";
+
+export async function GET() {
+  try {
+    const series = await getStoreStatus();
+    return NextResponse.json({ series, count: series.length });
+  } catch (error: unknown) {
+    console.error("Error reading store status:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to read store status";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * Top up the local store; `?series=WALCL,NAPM` limits the FRED series synced
+ */
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const series = searchParams.get("series");
+    const seriesIds = series
+      ? series.split(",").map((id) => id.trim()).filter(Boolean)
+      : DEFAULT_SYNC_SERIES;
+
+    const results = await syncAll(seriesIds);
+    const failed = results.filter((r) => r.error);
+
+    return NextResponse.json(
+      { results, failed: failed.length },
+      { status: failed.length === results.length ? 502 : 200 }
+    );
+  } catch (error: unknown) {
+    console.error("Error syncing store:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to sync store";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Bell, Trash2 } from "lucide-react";
+import {
+  AlertChannel,
+  AlertCondition,
+  AlertEvent,
+  AlertRule,
+  IndexInterpretation,
+} from "@/lib/types";
+
+interface AlertsResponse {
+  rules: AlertRule[];
+  events: AlertEvent[];
+}
+
+async function fetchAlerts(): Promise<AlertsResponse> {
+  const response = await fetch("/api/alerts");
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Alerts API error: ${error.error || response.statusText}`);
+  }
+  return await response.json();
+}
+
+const interpretations: IndexInterpretation[] = [
+  "very_bearish",
+  "bearish",
+  "neutral",
+  "bullish",
+  "very_bullish",
+];
+
+function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "threshold":
+      return `Index crosses ${condition.direction} ${condition.level}`;
+    case "interpretation":
+      return `${condition.from ? `${condition.from} → ` : "Turns "}${condition.to}`;
+    case "factor":
+      return `${condition.factorId} |z| ≥ ${condition.zScore}`;
+    case "change":
+      return `Daily change ≥ ${condition.points} pts`;
+  }
+}
+
+/**
+ * Raise a desktop notification for every new browser-channel alert while the page is open
+ */
+function useAlertNotifications(enabled: boolean) {
+  const since = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Only alerts fired after notifications were turned on
+    since.current ??= Date.now();
+
+    const poll = async () => {
+      const after = since.current ?? Date.now();
+      const response = await fetch(`/api/alerts/events?channel=browser&since=${after}`);
+      if (!response.ok) return;
+      const { events } = (await response.json()) as { events: AlertEvent[] };
+      for (const event of events) {
+        since.current = Math.max(since.current ?? after, event.timestamp);
+        new Notification(event.ruleName, { body: event.message });
+      }
+    };
+
+    const interval = setInterval(() => {
+      poll().catch((err) => console.error("Error polling alerts:", err));
+    }, 60000);
+    return () => clearInterval(interval);
+  }, [enabled]);
+}
+
+export function AlertsPanel() {
+  const queryClient = useQueryClient();
+  const { data, error } = useQuery({
+    queryKey: ["alerts"],
+    queryFn: fetchAlerts,
+    refetchInterval: 60000,
+  });
+
+  const [notificationsEnabled, setNotificationsEnabled] = useState(
+    () => typeof Notification !== "undefined" && Notification.permission === "granted"
+  );
+  useAlertNotifications(notificationsEnabled);
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AlertCondition["type"]>("threshold");
+  const [level, setLevel] = useState("60");
+  const [direction, setDirection] = useState<"above" | "below">("above");
+  const [to, setTo] = useState<IndexInterpretation>("bullish");
+  const [factorId, setFactorId] = useState("liquidity");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const enableNotifications = async () => {
+    if (typeof Notification === "undefined") return;
+    const permission = await Notification.requestPermission();
+    setNotificationsEnabled(permission === "granted");
+  };
+
+  const buildCondition = (): AlertCondition => {
+    switch (type) {
+      case "threshold":
+        return { type, level: Number(level), direction };
+      case "interpretation":
+        return { type, to };
+      case "factor":
+        return { type, factorId, zScore: Number(level) };
+      case "change":
+        return { type, points: Number(level) };
+    }
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const channels: AlertChannel[] = [{ type: "browser" }];
+    if (webhookUrl) channels.push({ type: "webhook", url: webhookUrl });
+    if (email) channels.push({ type: "email", to: email });
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      const response = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, condition: buildCondition(), channels }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: "Unknown error" }));
+        throw new Error(body.error || "Failed to save alert");
+      }
+      setName("");
+      await queryClient.invalidateQueries({ queryKey: ["alerts"] });
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : "Failed to save alert");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    await fetch(`/api/alerts?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    await queryClient.invalidateQueries({ queryKey: ["alerts"] });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Alerts</CardTitle>
+            <CardDescription>
+              Rules are evaluated on the server every few minutes; alerts are sent even with this tab closed
+            </CardDescription>
+          </div>
+          <button
+            onClick={enableNotifications}
+            disabled={notificationsEnabled}
+            className="flex items-center gap-2 px-3 py-1 rounded-md text-sm bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50"
+          >
+            <Bell className="h-4 w-4" />
+            {notificationsEnabled ? "Notifications on" : "Enable notifications"}
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to load alerts"}
+          </div>
+        )}
+
+        <form onSubmit={save} className="flex flex-wrap items-end gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">Name</span>
+            <input
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="rounded-md border bg-background px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">When</span>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as AlertCondition["type"])}
+              className="rounded-md border bg-background px-2 py-1"
+            >
+              <option value="threshold">Index crosses</option>
+              <option value="interpretation">Interpretation becomes</option>
+              <option value="factor">Factor z-score reaches</option>
+              <option value="change">Daily change reaches</option>
+            </select>
+          </label>
+          {type === "threshold" && (
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as "above" | "below")}
+              className="rounded-md border bg-background px-2 py-1"
+            >
+              <option value="above">above</option>
+              <option value="below">below</option>
+            </select>
+          )}
+          {type === "interpretation" && (
+            <select
+              value={to}
+              onChange={(e) => setTo(e.target.value as IndexInterpretation)}
+              className="rounded-md border bg-background px-2 py-1"
+            >
+              {interpretations.map((i) => (
+                <option key={i} value={i}>
+                  {i.replace("_", " ")}
+                </option>
+              ))}
+            </select>
+          )}
+          {type === "factor" && (
+            <input
+              value={factorId}
+              onChange={(e) => setFactorId(e.target.value)}
+              placeholder="factor id"
+              className="w-28 rounded-md border bg-background px-2 py-1"
+            />
+          )}
+          {type !== "interpretation" && (
+            <input
+              type="number"
+              step="0.1"
+              required
+              value={level}
+              onChange={(e) => setLevel(e.target.value)}
+              className="w-20 rounded-md border bg-background px-2 py-1"
+            />
+          )}
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">Webhook (optional)</span>
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className="rounded-md border bg-background px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">Email (optional)</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="rounded-md border bg-background px-2 py-1"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-3 py-1 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Add alert"}
+          </button>
+          {formError && <p className="w-full text-xs text-destructive">{formError}</p>}
+        </form>
+
+        {data && data.rules.length > 0 && (
+          <ul className="space-y-2">
+            {data.rules.map((rule) => (
+              <li key={rule.id} className="flex items-center justify-between border-t pt-2">
+                <div>
+                  <span className="font-semibold">{rule.name}</span>
+                  <span className="text-muted-foreground"> · {describeCondition(rule.condition)}</span>
+                  {rule.profile && <span className="text-muted-foreground"> · {rule.profile}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {rule.channels.map((c) => (
+                    <Badge key={c.type} variant="outline">
+                      {c.type}
+                    </Badge>
+                  ))}
+                  <button
+                    onClick={() => remove(rule.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={`Delete ${rule.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {data && data.events.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-muted-foreground">Recent alerts</div>
+            {data.events.slice(0, 10).map((event) => (
+              <div key={event.id} className="flex justify-between gap-4">
+                <span>
+                  <span className="font-semibold">{event.ruleName}</span>: {event.message}
+                  {event.deliveries.some((d) => !d.ok) && (
+                    <span className="text-destructive">
+                      {" "}
+                      (failed: {event.deliveries.filter((d) => !d.ok).map((d) => d.channel).join(", ")})
+                    </span>
+                  )}
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {new Date(event.timestamp).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import { AssetIndexReading, LiquidityModel } from "@/lib/types";
+
+async function fetchAssetIndices(liquidity: LiquidityModel): Promise<AssetIndexReading[]> {
+  const response = await fetch(`/api/index/assets?liquidity=${liquidity}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Assets API error: ${error.error || response.statusText}`);
+  }
+  const { assets } = (await response.json()) as { assets: AssetIndexReading[] };
+  return assets;
+}
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: value < 1000 ? 2 : 0,
+  }).format(value);
+
+/**
+ * The same macro model applied to every supported asset; clicking a row selects that asset
+ */
+export function AssetComparison({
+  selected,
+  liquidity,
+  onSelect,
+}: {
+  selected: string;
+  liquidity: LiquidityModel;
+  onSelect: (asset: string) => void;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["asset-indices", liquidity],
+    queryFn: () => fetchAssetIndices(liquidity),
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Across Assets</CardTitle>
+        <CardDescription>
+          Shared liquidity and PMI factors; only the price trend differs between assets
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading && <Skeleton className="h-24 w-full" />}
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to load assets"}
+          </div>
+        )}
+
+        {data && (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-normal py-1">Asset</th>
+                <th className="font-normal py-1 text-right">Price</th>
+                <th className="font-normal py-1 text-right">Index</th>
+                <th className="font-normal py-1 text-right">Since last close</th>
+                <th className="font-normal py-1 text-right">Reading</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.map((reading) => (
+                <tr
+                  key={reading.asset}
+                  onClick={() => onSelect(reading.asset)}
+                  className={`cursor-pointer border-t hover:bg-secondary/50 ${
+                    selected === reading.asset ? "bg-secondary/50 font-semibold" : ""
+                  }`}
+                >
+                  <td className="py-1">
+                    {reading.name} <span className="text-muted-foreground">{reading.symbol}</span>
+                  </td>
+                  {reading.directionIndex && reading.price ? (
+                    <>
+                      <td className="py-1 text-right">{formatPrice(reading.price.price)}</td>
+                      <td className="py-1 text-right">{reading.directionIndex.index.toFixed(1)}</td>
+                      <td className="py-1 text-right">
+                        {reading.change === null
+                          ? "—"
+                          : `${reading.change >= 0 ? "+" : ""}${reading.change.toFixed(1)}`}
+                      </td>
+                      <td className="py-1 text-right">
+                        {reading.directionIndex.interpretation.replace("_", " ")}
+                      </td>
+                    </>
+                  ) : (
+                    <td className="py-1 text-right text-destructive" colSpan={4}>
+                      {reading.error ?? "Unavailable"}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
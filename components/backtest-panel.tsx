@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertCircle } from "lucide-react";
+import { BacktestMetrics, BacktestResult, BacktestRules } from "@/lib/types";
+
+type BacktestTimespan = "1Y" | "ALL";
+
+async function fetchBacktest(
+  asset: string,
+  timespan: BacktestTimespan,
+  rules: BacktestRules
+): Promise<BacktestResult> {
+  const params = new URLSearchParams({
+    asset,
+    timespan,
+    longAbove: String(rules.longAbove),
+    flatBelow: String(rules.flatBelow),
+    feeBps: String(rules.feeBps),
+  });
+  const response = await fetch(`/api/backtest?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Backtest API error: ${error.error || response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatRatio = (value: number) => value.toFixed(2);
+
+const metricRows: {
+  key: keyof BacktestMetrics;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: "totalReturn", label: "Total Return", format: formatPercent },
+  { key: "cagr", label: "CAGR", format: formatPercent },
+  { key: "maxDrawdown", label: "Max Drawdown", format: formatPercent },
+  { key: "sharpe", label: "Sharpe", format: formatRatio },
+  { key: "sortino", label: "Sortino", format: formatRatio },
+  { key: "hitRate", label: "Hit Rate", format: formatPercent },
+  { key: "turnover", label: "Turnover (per year)", format: formatRatio },
+  { key: "exposure", label: "Time in Market", format: formatPercent },
+];
+
+export function BacktestPanel({ asset = "btc" }: { asset?: string }) {
+  const [timespan, setTimespan] = useState<BacktestTimespan>("ALL");
+  const [rules, setRules] = useState<BacktestRules>({
+    longAbove: 60,
+    flatBelow: 40,
+    feeBps: 10,
+  });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["backtest", asset, timespan, rules],
+    queryFn: () => fetchBacktest(asset, timespan, rules),
+  });
+
+  const updateRule = (key: keyof BacktestRules, value: string) => {
+    const parsed = Number(value);
+    if (value === "" || isNaN(parsed)) return;
+    setRules((current) => ({ ...current, [key]: parsed }));
+  };
+
+  const ruleInputs: { key: keyof BacktestRules; label: string }[] = [
+    { key: "longAbove", label: "Long above" },
+    { key: "flatBelow", label: "Flat below" },
+    { key: "feeBps", label: "Fee (bps)" },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Walk-Forward Backtest</CardTitle>
+            <CardDescription>
+              Rule-based positioning on the Direction Index vs. buy-and-hold
+              {data && ` (${data.start} to ${data.end}, ${data.periods} days)`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(["1Y", "ALL"] as const).map((ts) => (
+              <button
+                key={ts}
+                onClick={() => setTimespan(ts)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 cursor-pointer ${
+                  timespan === ts
+                    ? "bg-primary text-primary-foreground shadow-md"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                }`}
+              >
+                {ts === "ALL" ? "All Time" : "1 Year"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-4 text-sm">
+          {ruleInputs.map((input) => (
+            <label key={input.key} className="flex items-center gap-2">
+              <span className="text-muted-foreground">{input.label}</span>
+              <input
+                type="number"
+                defaultValue={rules[input.key]}
+                onBlur={(e) => updateRule(input.key, e.target.value)}
+                className="w-20 rounded-md border bg-background px-2 py-1"
+              />
+            </label>
+          ))}
+        </div>
+
+        {isLoading && <Skeleton className="h-80 w-full" />}
+
+        {error && !data && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to run backtest"}
+          </div>
+        )}
+
+        {data && (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-normal py-1">Metric</th>
+                  <th className="font-normal py-1 text-right">Strategy</th>
+                  <th className="font-normal py-1 text-right">Buy &amp; Hold</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map((row) => (
+                  <tr key={row.key} className="border-t">
+                    <td className="py-1">{row.label}</td>
+                    <td className="py-1 text-right font-semibold">
+                      {row.format(data.strategy[row.key])}
+                    </td>
+                    <td className="py-1 text-right">
+                      {row.format(data.buyAndHold[row.key])}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <ResponsiveContainer width="100%" height={320}>
+              <LineChart
+                data={data.equityCurve}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="date" className="text-xs" tick={{ fill: "currentColor" }} />
+                <YAxis
+                  scale="log"
+                  domain={["auto", "auto"]}
+                  tick={{ fill: "currentColor" }}
+                  tickFormatter={(value: number) => `${value.toFixed(1)}x`}
+                  className="text-xs"
+                />
+                <Tooltip
+                  formatter={(value: number | undefined) =>
+                    value === undefined ? "" : `${value.toFixed(2)}x`
+                  }
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="strategy"
+                  stroke="hsl(142, 76%, 36%)"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Strategy"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="buyAndHold"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Buy & Hold"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
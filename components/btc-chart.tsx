@@ -20,9 +20,16 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Download } from "lucide-react";
 
 type Timespan = "1D" | "7D" | "30D" | "90D" | "1Y" | "ALL";
+type ExportFormat = "csv" | "json";
+
+const exportDatasets = [
+  { value: "index", label: "Index & price" },
+  { value: "factors", label: "Factor z-scores" },
+  { value: "liquidity", label: "Liquidity components" },
+] as const;
 
 interface ChartDataPoint {
   timestamp: number;
@@ -37,9 +44,9 @@ interface ChartData {
   count: number;
 }
 
-// Fetch function for Bitcoin history
-async function fetchBitcoinHistory(timespan: Timespan) {
-  const response = await fetch(`/api/bitcoin/history?timespan=${timespan}`);
+// Fetch function for the asset's price history
+async function fetchPriceHistory(asset: string, timespan: Timespan) {
+  const response = await fetch(`/api/bitcoin/history?timespan=${timespan}&asset=${asset}`);
   
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: "Unknown error" }));
@@ -50,21 +57,21 @@ async function fetchBitcoinHistory(timespan: Timespan) {
       );
     }
     
-    throw new Error(`Bitcoin API error: ${error.error || response.statusText}`);
+    throw new Error(`Price API error: ${error.error || response.statusText}`);
   }
   
   const data = await response.json();
   
   if (!data.data || data.data.length === 0) {
-    throw new Error("No Bitcoin price data available");
+    throw new Error("No price data available");
   }
   
   return data;
 }
 
 // Fetch function for index history
-async function fetchIndexHistory(timespan: Timespan) {
-  const response = await fetch(`/api/index/history?timespan=${timespan}`);
+async function fetchIndexHistory(asset: string, timespan: Timespan) {
+  const response = await fetch(`/api/index/history?timespan=${timespan}&asset=${asset}`);
   
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: "Unknown error" }));
@@ -81,22 +88,24 @@ async function fetchIndexHistory(timespan: Timespan) {
   return await response.json();
 }
 
-export function BTCChart() {
+export function BTCChart({ asset = "btc" }: { asset?: string }) {
+  const symbol = asset.toUpperCase();
   const [timespan, setTimespan] = useState<Timespan>("1Y");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
 
   // Use React Query to fetch both APIs in parallel with caching
   const results = useQueries({
     queries: [
       {
-        queryKey: ["bitcoin-history", timespan],
-        queryFn: () => fetchBitcoinHistory(timespan),
+        queryKey: ["price-history", asset, timespan],
+        queryFn: () => fetchPriceHistory(asset, timespan),
         staleTime: 5 * 60 * 1000, // 5 minutes
         gcTime: 10 * 60 * 1000, // 10 minutes
         retry: 2,
       },
       {
-        queryKey: ["index-history", timespan],
-        queryFn: () => fetchIndexHistory(timespan),
+        queryKey: ["index-history", asset, timespan],
+        queryFn: () => fetchIndexHistory(asset, timespan),
         staleTime: 5 * 60 * 1000, // 5 minutes
         gcTime: 10 * 60 * 1000, // 10 minutes
         retry: 2,
@@ -116,7 +125,7 @@ export function BTCChart() {
     const indexData = indexQuery.data;
     
     if (indexData && !indexData.data) {
-      console.warn("No index data available, showing only BTC price");
+      console.warn(`No index data available, showing only ${symbol} price`);
     }
 
     // Merge the data by timestamp - use a more flexible matching approach
@@ -136,7 +145,7 @@ export function BTCChart() {
       });
     }
 
-    // Merge BTC price data with index data
+    // Merge price data with index data
     btcData.data.forEach(
       (btcPoint: { timestamp: number; date: string; price: number }) => {
         // Find the closest index value (within 24 hours)
@@ -164,7 +173,7 @@ export function BTCChart() {
           matchedIndex = closestIndex;
         }
 
-         // Always include BTC price
+         // Always include the price
          // Only use default 50 if we truly have no index data at all
          // Otherwise, if we have some index data but not for this point, skip it
          if (indexMap.size > 0 && matchedIndex === null) {
@@ -306,7 +315,7 @@ export function BTCChart() {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Bitcoin Price & Direction Index</CardTitle>
+          <CardTitle>{symbol} Price & Direction Index</CardTitle>
           <CardDescription>No data available</CardDescription>
         </CardHeader>
       </Card>
@@ -340,9 +349,9 @@ export function BTCChart() {
       <CardHeader>
         <div className="flex items-center justify-between">
           <div>
-            <CardTitle>Bitcoin Price & Direction Index</CardTitle>
+            <CardTitle>{symbol} Price & Direction Index</CardTitle>
             <CardDescription>
-              Compare BTC price with the Direction Index over time (
+              Compare {symbol} price with the Direction Index over time (
               {chartData.count} data points)
             </CardDescription>
           </div>
@@ -419,7 +428,7 @@ export function BTCChart() {
               stroke="hsl(var(--primary))"
               strokeWidth={2}
               dot={false}
-              name="BTC Price (USD)"
+              name={`${symbol} Price (USD)`}
               activeDot={{ r: 4 }}
             />
             <Line
@@ -435,6 +444,28 @@ export function BTCChart() {
             />
           </LineChart>
         </ResponsiveContainer>
+        <div className="flex flex-wrap items-center gap-2 pt-4 text-sm">
+          <span className="text-muted-foreground">Download</span>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="rounded-md border bg-background px-2 py-1"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          {exportDatasets.map((dataset) => (
+            <a
+              key={dataset.value}
+              href={`/api/index/history?timespan=${timespan}&asset=${asset}&dataset=${dataset.value}&format=${exportFormat}`}
+              download
+              className="flex items-center gap-1 px-3 py-1 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/80"
+            >
+              <Download className="h-4 w-4" />
+              {dataset.label}
+            </a>
+          ))}
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertCircle } from "lucide-react";
+import { AnalyticsResult, CorrelationEstimate } from "@/lib/types";
+
+type AnalyticsTimespan = "1Y" | "ALL";
+
+async function fetchAnalytics(
+  asset: string,
+  timespan: AnalyticsTimespan,
+  horizon: number
+): Promise<AnalyticsResult> {
+  const params = new URLSearchParams({ asset, timespan, horizon: String(horizon) });
+  const response = await fetch(`/api/analytics?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Analytics API error: ${error.error || response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+const lineColors = ["hsl(var(--primary))", "hsl(142, 76%, 36%)", "hsl(38, 92%, 50%)"];
+
+function describeEstimate(estimate: CorrelationEstimate): string {
+  return `r = ${estimate.correlation.toFixed(3)} (95% CI ${estimate.ciLow.toFixed(2)} to ${estimate.ciHigh.toFixed(2)}, p = ${estimate.pValue.toFixed(3)}, effective n = ${estimate.effectiveN})`;
+}
+
+export function CorrelationPanel({ asset = "btc" }: { asset?: string }) {
+  const [timespan, setTimespan] = useState<AnalyticsTimespan>("ALL");
+  const [horizon, setHorizon] = useState(30);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["analytics", asset, timespan, horizon],
+    queryFn: () => fetchAnalytics(asset, timespan, horizon),
+  });
+
+  // One row per date with a column per rolling window
+  const rollingRows = new Map<string, Record<string, number | string>>();
+  for (const series of data?.rolling ?? []) {
+    for (const point of series.points) {
+      const row = rollingRows.get(point.date) ?? { date: point.date };
+      row[`w${series.window}`] = point.correlation;
+      rollingRows.set(point.date, row);
+    }
+  }
+  const rollingData = Array.from(rollingRows.values()).sort((a, b) =>
+    String(a.date).localeCompare(String(b.date))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Index vs. Forward Returns</CardTitle>
+            <CardDescription>
+              Correlation between the index and {asset.toUpperCase()} returns over the following days
+              {data && ` (${data.start} to ${data.end})`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {(["1Y", "ALL"] as const).map((ts) => (
+              <button
+                key={ts}
+                onClick={() => setTimespan(ts)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 cursor-pointer ${
+                  timespan === ts
+                    ? "bg-primary text-primary-foreground shadow-md"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                }`}
+              >
+                {ts === "ALL" ? "All Time" : "1 Year"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Horizon (days)</span>
+          <input
+            type="number"
+            defaultValue={horizon}
+            min={1}
+            max={365}
+            onBlur={(e) => {
+              const parsed = Number(e.target.value);
+              if (Number.isInteger(parsed) && parsed >= 1) setHorizon(parsed);
+            }}
+            className="w-20 rounded-md border bg-background px-2 py-1"
+          />
+        </label>
+
+        {isLoading && <Skeleton className="h-80 w-full" />}
+
+        {error && !data && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to load analytics"}
+          </div>
+        )}
+
+        {data && (
+          <>
+            <div className="space-y-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">{data.horizon}-day forward returns: </span>
+                <span className="font-semibold">{describeEstimate(data.overall)}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Strongest significant lead: </span>
+                <span className="font-semibold">
+                  {data.bestLag
+                    ? `${data.bestLag.horizon} days, ${describeEstimate(data.bestLag)}`
+                    : "none at the 5% level"}
+                </span>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={rollingData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="date" className="text-xs" tick={{ fill: "currentColor" }} />
+                <YAxis domain={[-1, 1]} tick={{ fill: "currentColor" }} className="text-xs" />
+                <Tooltip
+                  formatter={(value: number | undefined) =>
+                    value === undefined ? "" : value.toFixed(3)
+                  }
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.3} />
+                {data.rolling.map((series, i) => (
+                  <Line
+                    key={series.window}
+                    type="monotone"
+                    dataKey={`w${series.window}`}
+                    stroke={lineColors[i % lineColors.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    name={`${series.window}-day rolling`}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={data.leadLag} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="horizon"
+                  className="text-xs"
+                  tick={{ fill: "currentColor" }}
+                  tickFormatter={(value: number) => `${value}d`}
+                />
+                <YAxis tick={{ fill: "currentColor" }} className="text-xs" />
+                <Tooltip
+                  labelFormatter={(label) => `${label} days ahead`}
+                  formatter={(value: number | undefined) =>
+                    value === undefined ? "" : value.toFixed(3)
+                  }
+                />
+                <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.3} />
+                <Bar dataKey="correlation" fill="hsl(var(--primary))" name="Correlation" />
+              </BarChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
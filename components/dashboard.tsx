@@ -1,24 +1,47 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { DashboardData } from '@/lib/types';
+import { DashboardData, ISMPMIData, LiquidityModel } from '@/lib/types';
 import { TrendingUp, TrendingDown, Minus, RefreshCw, AlertCircle } from 'lucide-react';
+import { ASSETS } from '@/lib/assets';
+import { formatAmount } from '@/lib/units';
+import { AlertsPanel } from '@/components/alerts-panel';
+import { AssetComparison } from '@/components/asset-comparison';
 import { BTCChart } from '@/components/btc-chart';
+import { BacktestPanel } from '@/components/backtest-panel';
+import { CorrelationPanel } from '@/components/correlation-panel';
+import { LiveStatusIndicator, useLiveIndex } from '@/components/live-price';
+import { OnChainPanel } from '@/components/onchain-panel';
+import { PositioningCard } from '@/components/positioning-card';
+import { ScenarioPanel } from '@/components/scenario-panel';
+import { PMIEntryForm } from '@/components/pmi-entry-form';
+import { SnapshotsPanel } from '@/components/snapshots-panel';
+
+const pmiSourceLabels: Record<NonNullable<ISMPMIData['source']>, string> = {
+  FRED_NAPM: 'NAPM proxy',
+  manual: 'Manual entry',
+  csv: 'CSV import',
+  placeholder: 'Placeholder',
+};
 
 export function Dashboard() {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [liquidityModel, setLiquidityModel] = useState<LiquidityModel>('us');
+  const [asset, setAsset] = useState(ASSETS[0].id);
+  const assetSpec = ASSETS.find((a) => a.id === asset) ?? ASSETS[0];
+  const live = useLiveIndex(asset, liquidityModel);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch('/api/dashboard');
+      const response = await fetch(`/api/dashboard?liquidity=${liquidityModel}&asset=${asset}`);
       if (!response.ok) {
         throw new Error('Failed to fetch dashboard data');
       }
@@ -31,14 +54,14 @@ export function Dashboard() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [liquidityModel, asset]);
 
   useEffect(() => {
     fetchData();
     // Auto-refresh every 60 seconds
     const interval = setInterval(fetchData, 60000);
     return () => clearInterval(interval);
-  }, []);
+  }, [fetchData]);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -114,6 +137,16 @@ export function Dashboard() {
 
   if (!data) return null;
 
+  // Streamed values replace the dashboard's once they are at least as recent
+  const price =
+    live.price && live.price.timestamp >= data.bitcoinPrice.timestamp
+      ? live.price
+      : data.bitcoinPrice;
+  const directionIndex =
+    live.directionIndex && live.directionIndex.timestamp >= data.directionIndex.timestamp
+      ? live.directionIndex
+      : data.directionIndex;
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -121,144 +154,282 @@ export function Dashboard() {
         <div>
           <h1 className="text-3xl font-bold">Bitcoin Direction Index</h1>
           <p className="text-muted-foreground mt-1">
-            Real-time analysis based on US liquidity, PMI, and Bitcoin momentum
+            Real-time analysis based on US liquidity, PMI, and price momentum
           </p>
         </div>
-        <button
-          onClick={fetchData}
-          disabled={loading}
-          className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
-        >
-          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {ASSETS.map((a) => (
+            <button
+              key={a.id}
+              onClick={() => setAsset(a.id)}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-all duration-200 cursor-pointer ${
+                asset === a.id
+                  ? 'bg-primary text-primary-foreground shadow-md'
+                  : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+              }`}
+            >
+              {a.symbol}
+            </button>
+          ))}
+          <button
+            onClick={fetchData}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
       </div>
 
+      {/* Data Quality */}
+      {data.quality && !data.quality.ok && (
+        <Card className={data.quality.degraded ? 'border-destructive' : 'border-yellow-500'}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <AlertCircle
+                className={`h-5 w-5 ${data.quality.degraded ? 'text-destructive' : 'text-yellow-600'}`}
+              />
+              {data.quality.degraded
+                ? 'The index is computed from degraded inputs'
+                : 'Data quality warnings'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {data.quality.issues.map((issue, i) => (
+                <li
+                  key={`${issue.input}-${issue.check}-${i}`}
+                  className={issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}
+                >
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Main Index Card */}
       <Card className="border-2">
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle className="text-2xl">Bitcoin Direction Index</CardTitle>
+              <CardTitle className="text-2xl">{assetSpec.name} Direction Index</CardTitle>
               <CardDescription>
-                Combined indicator (0-100 scale)
+                Combined indicator (0-100 scale) · {directionIndex.profile} profile
               </CardDescription>
             </div>
-            {getInterpretationBadge(data.directionIndex.interpretation)}
+            {getInterpretationBadge(directionIndex.interpretation)}
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             <div>
               <div className="text-5xl font-bold mb-2">
-                {formatNumber(data.directionIndex.index, 1)}
+                {formatNumber(directionIndex.index, 1)}
               </div>
               <div className="w-full bg-secondary rounded-full h-4">
                 <div
                   className="bg-primary h-4 rounded-full transition-all duration-500"
-                  style={{ width: `${data.directionIndex.index}%` }}
+                  style={{ width: `${directionIndex.index}%` }}
                 />
               </div>
+              {data.consistency && !data.consistency.consistent && (
+                <div className="flex items-center gap-2 mt-2 text-sm text-yellow-600">
+                  <AlertCircle className="h-4 w-4" />
+                  Live index differs from history
+                  {data.consistency.referenceIndex !== null &&
+                    ` (${formatNumber(data.consistency.referenceIndex, 1)} on ${data.consistency.referenceDate})`}
+                  {data.consistency.message && `: ${data.consistency.message}`}
+                </div>
+              )}
             </div>
-            <div className="grid grid-cols-3 gap-4 text-sm">
-              <div>
-                <div className="text-muted-foreground">Liquidity Z-Score</div>
-                <div className="font-semibold">{formatNumber(data.directionIndex.liquidityZScore, 2)}</div>
-              </div>
-              <div>
-                <div className="text-muted-foreground">PMI Z-Score</div>
-                <div className="font-semibold">{formatNumber(data.directionIndex.pmiZScore, 2)}</div>
-              </div>
-              <div>
-                <div className="text-muted-foreground">BTC Trend</div>
-                <div className="font-semibold">{formatNumber(data.directionIndex.btcTrend, 2)}</div>
-              </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              {directionIndex.factors.map((factor) => (
+                <div key={factor.id} className={factor.available ? '' : 'opacity-50'}>
+                  <div className="text-muted-foreground">
+                    {factor.label} ({formatNumber(factor.weight * 100, 0)}%)
+                  </div>
+                  <div className="font-semibold flex items-center gap-1">
+                    {getTrendIcon(factor.contribution)}
+                    {formatNumber(factor.score, 2)}
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {factor.contribution >= 0 ? '+' : ''}
+                      {formatNumber(factor.contribution * 50, 1)} pts
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{factor.description}</div>
+                  {data.staleness?.[factor.id] !== undefined && (
+                    <div className="text-xs text-muted-foreground">
+                      Data {data.staleness[factor.id]}d old
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Side-by-side Assets */}
+      <AssetComparison selected={asset} liquidity={liquidityModel} onSelect={setAsset} />
+
+      {/* On-chain Metrics */}
+      <OnChainPanel />
+
+      {/* Alerts */}
+      <AlertsPanel />
+
       {/* Chart Section */}
-      <BTCChart />
+      <BTCChart asset={asset} />
 
-      {/* Bitcoin Price */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Bitcoin Price</CardTitle>
-          <CardDescription>Current BTC/USD price</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            <div className="text-3xl font-bold">
-              {formatCurrency(data.bitcoinPrice.price)}
-            </div>
-            {data.bitcoinPrice.change24h !== undefined && (
-              <div className="flex items-center gap-2">
-                {getTrendIcon(data.bitcoinPrice.change24h)}
-                <span className={data.bitcoinPrice.change24h >= 0 ? 'text-green-500' : 'text-red-500'}>
-                  {formatNumber(data.bitcoinPrice.change24h, 2)}% (24h)
-                </span>
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      {/* Backtest */}
+      <BacktestPanel asset={asset} />
 
-      {/* US Liquidity Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Fed Balance Sheet</CardTitle>
-            <CardDescription>Total Fed Assets</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {formatCurrency(data.liquidity.fedBalanceSheet)}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Correlation & Lead/Lag */}
+      <CorrelationPanel asset={asset} />
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Treasury General Account</CardTitle>
-            <CardDescription>TGA Balance</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {formatCurrency(data.liquidity.tga)}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Recorded Snapshots */}
+      <SnapshotsPanel />
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Reverse Repo</CardTitle>
-            <CardDescription>RRP Facility</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {formatCurrency(data.liquidity.rrp)}
-            </div>
-          </CardContent>
-        </Card>
+      {/* What-if Scenarios */}
+      <ScenarioPanel />
 
+      {/* Asset Price & Derivatives Positioning */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">US Liquidity</CardTitle>
-            <CardDescription>Fed - TGA - RRP</CardDescription>
+            <div className="flex items-center justify-between">
+              <CardTitle>{assetSpec.name} Price</CardTitle>
+              <LiveStatusIndicator status={live.status} provider={live.provider} />
+            </div>
+            <CardDescription>
+              Current {assetSpec.symbol}/USD price, volume-weighted across exchanges
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">
-              {formatCurrency(data.liquidity.liquidity)}
+            <div className="space-y-2">
+              <div className="text-3xl font-bold">
+                {formatCurrency(price.price)}
+              </div>
+              {price.change24h !== undefined && (
+                <div className="flex items-center gap-2">
+                  {getTrendIcon(price.change24h)}
+                  <span className={price.change24h >= 0 ? 'text-green-500' : 'text-red-500'}>
+                    {formatNumber(price.change24h, 2)}% (24h)
+                  </span>
+                </div>
+              )}
+              {data.bitcoinPrice.sources && (
+                <div className="text-xs text-muted-foreground">
+                  {data.bitcoinPrice.sources.map((source) => (
+                    <span
+                      key={source.exchange}
+                      className={`mr-2 ${source.status === 'used' ? '' : 'line-through opacity-60'}`}
+                      title={
+                        source.status === 'failed'
+                          ? source.error
+                          : `${formatCurrency(source.price ?? 0)} (${source.status})`
+                      }
+                    >
+                      {source.exchange}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
+
+        <PositioningCard asset={asset} />
       </div>
 
+      {/* Liquidity Breakdown */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{liquidityModel === 'global' ? 'Global Liquidity' : 'US Net Liquidity'}</CardTitle>
+              <CardDescription>
+                {liquidityModel === 'global'
+                  ? 'Fed, ECB, BoJ and PBoC balance sheets in USD, net of TGA and RRP'
+                  : 'Fed - TGA - RRP'}{' '}
+                ({data.liquidity.date})
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {(['us', 'global'] as const).map((model) => (
+                <button
+                  key={model}
+                  onClick={() => setLiquidityModel(model)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 cursor-pointer ${
+                    liquidityModel === model
+                      ? 'bg-primary text-primary-foreground shadow-md'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  {model === 'global' ? 'Global' : 'US'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="font-normal py-1">Component</th>
+                <th className="font-normal py-1 text-right">Contribution</th>
+                <th className="font-normal py-1 text-right">Change</th>
+                <th className="font-normal py-1 text-right">As of</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(data.liquidity.components ?? []).map((component) => (
+                <tr key={component.id} className="border-t">
+                  <td className="py-1">{component.label}</td>
+                  <td className="py-1 text-right">{formatAmount(component.value, data.liquidity.scale)}</td>
+                  <td
+                    className={`py-1 text-right ${
+                      component.change === null || component.change === 0
+                        ? ''
+                        : component.change > 0
+                        ? 'text-green-500'
+                        : 'text-red-500'
+                    }`}
+                  >
+                    {component.change === null
+                      ? '-'
+                      : `${component.change >= 0 ? '+' : ''}${formatAmount(component.change, data.liquidity.scale)}`}
+                  </td>
+                  <td className="py-1 text-right text-muted-foreground">
+                    {component.date}
+                    {component.staleDays > 0 && ` (${component.staleDays}d earlier)`}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t font-semibold">
+                <td className="py-1">Total</td>
+                <td className="py-1 text-right">{formatAmount(data.liquidity.liquidity, data.liquidity.scale)}</td>
+                <td className="py-1" colSpan={2} />
+              </tr>
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
       {/* PMI */}
       <Card>
         <CardHeader>
-          <CardTitle>ISM Manufacturing PMI</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>ISM Manufacturing PMI</CardTitle>
+            {data.pmi.source && (
+              <Badge variant={data.pmi.source === 'placeholder' ? 'destructive' : 'outline'}>
+                {pmiSourceLabels[data.pmi.source]}
+              </Badge>
+            )}
+          </div>
           <CardDescription>
             {data.pmi.value >= 50 ? 'Expansion' : 'Contraction'} ({data.pmi.date})
           </CardDescription>
@@ -279,6 +450,9 @@ export function Dashboard() {
             {data.pmi.note && (
               <p className="text-xs text-muted-foreground mt-2">{data.pmi.note}</p>
             )}
+            <div className="pt-4">
+              <PMIEntryForm onSaved={fetchData} />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -288,18 +462,20 @@ export function Dashboard() {
         <Card>
           <CardHeader>
             <CardTitle>Index Correlation</CardTitle>
-            <CardDescription>Correlation between index and Bitcoin price</CardDescription>
+            <CardDescription>
+              Correlation between index and 30-day forward {assetSpec.symbol} returns (1Y)
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
               {formatNumber(data.correlation, 3)}
             </div>
             <p className="text-sm text-muted-foreground mt-2">
-              {data.correlation > 0.7
+              {data.correlation > 0.3
                 ? 'Strong positive correlation'
-                : data.correlation > 0.3
+                : data.correlation > 0.1
                 ? 'Moderate positive correlation'
-                : data.correlation > -0.3
+                : data.correlation > -0.1
                 ? 'Weak correlation'
                 : 'Negative correlation'}
             </p>
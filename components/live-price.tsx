@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AssetPrice, BitcoinDirectionIndex, LiquidityModel, LiveStreamStatus } from "@/lib/types";
+
+export interface LiveIndexState {
+  status: LiveStreamStatus;
+  provider: string | null;
+  price: AssetPrice | null;
+  directionIndex: BitcoinDirectionIndex | null;
+}
+
+const INITIAL_STATE: LiveIndexState = {
+  status: "connecting",
+  provider: null,
+  price: null,
+  directionIndex: null,
+};
+
+/**
+ * Streaming price and live index of an asset from /api/stream
+ * Switching asset or liquidity model starts over from "connecting"
+ */
+export function useLiveIndex(asset: string, liquidity: LiquidityModel): LiveIndexState {
+  const key = `${asset}:${liquidity}`;
+  const [state, setState] = useState<LiveIndexState & { key: string }>({
+    ...INITIAL_STATE,
+    key,
+  });
+
+  useEffect(() => {
+    const source = new EventSource(`/api/stream?asset=${asset}&liquidity=${liquidity}`);
+    const update = (patch: Partial<LiveIndexState>) =>
+      setState((current) => ({
+        ...(current.key === key ? current : INITIAL_STATE),
+        ...patch,
+        key,
+      }));
+
+    source.addEventListener("status", (event) => {
+      const { status, provider } = JSON.parse(event.data);
+      update({ status, provider });
+    });
+    source.addEventListener("price", (event) => update({ price: JSON.parse(event.data) }));
+    source.addEventListener("index", (event) => {
+      update({ directionIndex: JSON.parse(event.data) });
+    });
+    // EventSource reconnects by itself after an error
+    source.onerror = () => update({ status: "reconnecting" });
+
+    return () => source.close();
+  }, [asset, liquidity, key]);
+
+  return state.key === key ? state : INITIAL_STATE;
+}
+
+const STATUS_STYLES: Record<LiveStreamStatus, { label: string; dot: string }> = {
+  connecting: { label: "Connecting", dot: "bg-gray-400" },
+  live: { label: "Live", dot: "bg-green-500 animate-pulse" },
+  reconnecting: { label: "Reconnecting", dot: "bg-yellow-500" },
+  closed: { label: "Offline", dot: "bg-red-500" },
+};
+
+/**
+ * Small dot and label for the state of the live price stream
+ */
+export function LiveStatusIndicator({
+  status,
+  provider,
+}: Pick<LiveIndexState, "status" | "provider">) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span
+      className="flex items-center gap-1.5 text-xs text-muted-foreground"
+      title={provider ? `Streaming from ${provider}` : undefined}
+    >
+      <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+      {style.label}
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import { OnChainReading } from "@/lib/types";
+
+interface OnChainResponse {
+  provider: string;
+  profile: string;
+  weights: Record<string, number>;
+  metrics: OnChainReading[];
+}
+
+async function fetchOnChain(): Promise<OnChainResponse> {
+  const response = await fetch("/api/onchain");
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`On-chain API error: ${error.error || response.statusText}`);
+  }
+  return await response.json();
+}
+
+const formatValue = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    notation: Math.abs(value) >= 1e6 ? "compact" : "standard",
+    maximumFractionDigits: Math.abs(value) < 10 ? 3 : 1,
+  }).format(value);
+
+/**
+ * Latest on-chain metrics and their z-scores; they only move the index in profiles that weight them
+ */
+export function OnChainPanel() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["onchain"],
+    queryFn: fetchOnChain,
+    refetchInterval: 10 * 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>On-chain Metrics</CardTitle>
+            <CardDescription>
+              BTC network data, z-scored against the last two years; weighted in the
+              &quot;onchain&quot; profile
+            </CardDescription>
+          </div>
+          {data && (
+            <Badge variant={data.provider === "file" ? "destructive" : "outline"}>
+              {data.provider === "file" ? "Sample data" : data.provider}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading && <Skeleton className="h-32 w-full" />}
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to load on-chain metrics"}
+          </div>
+        )}
+
+        {data && (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {data.metrics.map((metric) => (
+              <div key={metric.id} className={metric.error ? "opacity-50" : ""}>
+                <div className="text-muted-foreground">{metric.label}</div>
+                {metric.value !== null && metric.zScore !== null ? (
+                  <>
+                    <div className="text-xl font-semibold">{formatValue(metric.value)}</div>
+                    <div
+                      className={
+                        metric.normalized !== null && metric.normalized < 0
+                          ? "text-red-500"
+                          : "text-green-500"
+                      }
+                    >
+                      {metric.zScore >= 0 ? "+" : ""}
+                      {metric.zScore.toFixed(2)}σ
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {metric.date}
+                      {data.weights[metric.id] > 0 &&
+                        ` · ${(data.weights[metric.id] * 100).toFixed(0)}% weight`}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-destructive">{metric.error ?? "Unavailable"}</div>
+                )}
+                <div className="text-xs text-muted-foreground mt-1">{metric.description}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PMIEntryFormProps {
+  onSaved: () => void;
+}
+
+/**
+ * Form for entering the monthly ISM Manufacturing PMI print when it's released
+ */
+export function PMIEntryForm({ onSaved }: PMIEntryFormProps) {
+  const [month, setMonth] = useState('');
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch('/api/pmi', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: month, value: Number(value) }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(body.error || 'Failed to save PMI');
+      }
+      setMonth('');
+      setValue('');
+      onSaved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save PMI');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-end gap-2 text-sm">
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Month</span>
+        <input
+          type="month"
+          required
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="rounded-md border bg-background px-2 py-1"
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">ISM PMI</span>
+        <input
+          type="number"
+          required
+          step="0.1"
+          min="0"
+          max="100"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-24 rounded-md border bg-background px-2 py-1"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-3 py-1 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save print'}
+      </button>
+      {error && <p className="w-full text-xs text-destructive">{error}</p>}
+    </form>
+  );
+}
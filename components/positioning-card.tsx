@@ -0,0 +1,138 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from "recharts";
+import { AlertCircle } from "lucide-react";
+import { PositioningPoint } from "@/lib/types";
+
+interface DerivativesResponse {
+  provider: string;
+  asset: string;
+  latest: PositioningPoint;
+  history: PositioningPoint[];
+  factor: { score: number; normalized: number; reading: string; weight: number };
+}
+
+async function fetchDerivatives(asset: string): Promise<DerivativesResponse> {
+  const response = await fetch(`/api/derivatives?asset=${asset}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Derivatives API error: ${error.error || response.statusText}`);
+  }
+  return await response.json();
+}
+
+const formatPercent = (value: number | null, digits: number = 1) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`;
+
+const formatUSD = (value: number | null) =>
+  value === null
+    ? "—"
+    : new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+        notation: "compact",
+        maximumFractionDigits: 1,
+      }).format(value);
+
+/**
+ * Perpetual funding, open interest and basis, with the contrarian positioning reading
+ */
+export function PositioningCard({ asset = "btc" }: { asset?: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["derivatives", asset],
+    queryFn: () => fetchDerivatives(asset),
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Derivatives Positioning</CardTitle>
+          {data?.provider === "file" && <Badge variant="destructive">Recorded data</Badge>}
+        </div>
+        <CardDescription>
+          {data ? data.factor.reading : "Funding, open interest and basis of the perpetual"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading && <Skeleton className="h-24 w-full" />}
+
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Failed to load derivatives data"}
+          </div>
+        )}
+
+        {data && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-muted-foreground">Funding (8h)</div>
+                <div className="font-semibold">{formatPercent(data.latest.fundingRate * 100, 4)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatPercent(data.latest.annualizedFunding)} a year
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Open interest</div>
+                <div className="font-semibold">{formatUSD(data.latest.openInterest)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatPercent(data.latest.openInterestChange)} 7d
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Quarterly basis</div>
+                <div className="font-semibold">{formatPercent(data.latest.basis)}</div>
+                <div className="text-xs text-muted-foreground">annualized</div>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={80}>
+              <LineChart data={data.history}>
+                <YAxis hide domain={["auto", "auto"]} />
+                <Tooltip
+                  labelFormatter={(_, payload) => payload?.[0]?.payload?.date ?? ""}
+                  formatter={(value: number | undefined) =>
+                    value === undefined ? "" : value.toFixed(1)
+                  }
+                />
+                <Line
+                  type="monotone"
+                  dataKey="crowding"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Crowding"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {data.factor.score >= 0 ? "+" : ""}
+                {data.factor.score.toFixed(2)}σ crowding ({data.latest.date})
+              </span>
+              <span>
+                {data.factor.weight > 0
+                  ? `${(data.factor.weight * 100).toFixed(0)}% index weight`
+                  : "Not weighted in this profile"}
+              </span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Play, Save, Trash2 } from "lucide-react";
+import {
+  Scenario,
+  ScenarioAdjustment,
+  ScenarioOverrides,
+  ScenarioResult,
+} from "@/lib/types";
+
+interface SavedScenariosResponse {
+  scenarios: Scenario[];
+  results: ScenarioResult[];
+}
+
+type Mode = "change" | "value";
+
+interface InputField {
+  id: string;
+  label: string;
+  unit: string;
+  scale: number; // form units to API units (billions to millions for liquidity)
+}
+
+const LIQUIDITY_FIELDS: InputField[] = [
+  { id: "fed", label: "Fed balance sheet", unit: "$B", scale: 1000 },
+  { id: "tga", label: "TGA", unit: "$B", scale: 1000 },
+  { id: "rrp", label: "Reverse repo", unit: "$B", scale: 1000 },
+];
+const PMI_FIELD: InputField = { id: "pmi", label: "ISM PMI", unit: "", scale: 1 };
+
+type FormState = Record<string, { mode: Mode; amount: string }>;
+
+const EMPTY_FORM: FormState = Object.fromEntries(
+  [...LIQUIDITY_FIELDS, PMI_FIELD].map((field) => [field.id, { mode: "change", amount: "" }])
+);
+
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Scenario API error: ${error.error || response.statusText}`);
+  }
+  return await response.json();
+}
+
+function toAdjustment(field: InputField, form: FormState): ScenarioAdjustment | undefined {
+  const { mode, amount } = form[field.id];
+  if (amount.trim() === "" || !isFinite(Number(amount))) return undefined;
+  return { [mode]: Number(amount) * field.scale };
+}
+
+function toOverrides(form: FormState): ScenarioOverrides {
+  const liquidity: Record<string, ScenarioAdjustment> = {};
+  for (const field of LIQUIDITY_FIELDS) {
+    const adjustment = toAdjustment(field, form);
+    if (adjustment) liquidity[field.id] = adjustment;
+  }
+  const pmi = toAdjustment(PMI_FIELD, form);
+  return { ...(Object.keys(liquidity).length > 0 ? { liquidity } : {}), ...(pmi ? { pmi } : {}) };
+}
+
+function toForm(overrides: ScenarioOverrides): FormState {
+  const form: FormState = { ...EMPTY_FORM };
+  const fill = (field: InputField, adjustment?: ScenarioAdjustment) => {
+    if (!adjustment) return;
+    const mode: Mode = adjustment.value !== undefined ? "value" : "change";
+    form[field.id] = { mode, amount: String((adjustment[mode] ?? 0) / field.scale) };
+  };
+  LIQUIDITY_FIELDS.forEach((field) => fill(field, overrides.liquidity?.[field.id]));
+  fill(PMI_FIELD, overrides.pmi);
+  return form;
+}
+
+const formatChange = (value: number, digits: number = 1) =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const formatBand = (interpretation: string) => interpretation.replace("_", " ");
+
+function ScenarioComparison({ result }: { result: ScenarioResult }) {
+  const { baseline, scenario } = result;
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-muted-foreground">Baseline</div>
+          <div className="text-2xl font-bold">{baseline.directionIndex.index.toFixed(1)}</div>
+          <Badge variant="outline">{formatBand(baseline.directionIndex.interpretation)}</Badge>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Scenario</div>
+          <div className="text-2xl font-bold">{scenario.directionIndex.index.toFixed(1)}</div>
+          <Badge
+            variant={
+              scenario.directionIndex.interpretation === baseline.directionIndex.interpretation
+                ? "outline"
+                : "default"
+            }
+          >
+            {formatBand(scenario.directionIndex.interpretation)}
+          </Badge>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Change</div>
+          <div
+            className={`text-2xl font-bold ${
+              result.indexChange >= 0 ? "text-green-500" : "text-red-500"
+            }`}
+          >
+            {formatChange(result.indexChange)}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Liquidity{" "}
+            {formatChange((scenario.liquidity.liquidity - baseline.liquidity.liquidity) / 1000, 0)}B
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-normal">Factor</th>
+            <th className="font-normal text-right">Baseline score</th>
+            <th className="font-normal text-right">Scenario score</th>
+            <th className="font-normal text-right">Contribution (pts)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scenario.directionIndex.factors.map((factor) => {
+            const before = baseline.directionIndex.factors.find((f) => f.id === factor.id);
+            return (
+              <tr key={factor.id} className="border-t">
+                <td className="py-1">{factor.label}</td>
+                <td className="py-1 text-right">{before ? before.score.toFixed(2) : "—"}</td>
+                <td className="py-1 text-right">{factor.score.toFixed(2)}</td>
+                <td className="py-1 text-right">
+                  {formatChange(factor.contribution * 50)}
+                  {before && factor.contribution !== before.contribution && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      ({formatChange((factor.contribution - before.contribution) * 50)})
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-xs text-muted-foreground">
+        Applied to the readings as of {result.asOf} ({result.profile} profile)
+      </div>
+    </div>
+  );
+}
+
+/**
+ * What-if tool: override liquidity components and PMI, then compare against today's index
+ */
+export function ScenarioPanel() {
+  const queryClient = useQueryClient();
+  const saved = useQuery({
+    queryKey: ["scenarios"],
+    queryFn: () => fetchJSON<SavedScenariosResponse>("/api/scenario"),
+  });
+
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [name, setName] = useState("");
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const submit = async (save: boolean) => {
+    try {
+      setRunning(true);
+      setRunError(null);
+      const response = await fetchJSON<{ result: ScenarioResult }>("/api/scenario", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ overrides: toOverrides(form), name: name || undefined, save }),
+      });
+      setResult(response.result);
+      if (save) await queryClient.invalidateQueries({ queryKey: ["scenarios"] });
+    } catch (err: unknown) {
+      setRunError(err instanceof Error ? err.message : "Failed to run scenario");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const remove = async (scenarioName: string) => {
+    try {
+      setRunError(null);
+      await fetchJSON(`/api/scenario?name=${encodeURIComponent(scenarioName)}`, {
+        method: "DELETE",
+      });
+      await queryClient.invalidateQueries({ queryKey: ["scenarios"] });
+    } catch (err: unknown) {
+      setRunError(err instanceof Error ? err.message : "Failed to delete scenario");
+    }
+  };
+
+  const load = (scenario: Scenario, scenarioResult?: ScenarioResult) => {
+    setForm(toForm(scenario.overrides));
+    setName(scenario.name);
+    setResult(scenarioResult ?? null);
+  };
+
+  const renderField = (field: InputField) => (
+    <div key={field.id} className="space-y-1">
+      <div className="text-muted-foreground">{field.label}</div>
+      <div className="flex gap-1">
+        <select
+          value={form[field.id].mode}
+          onChange={(e) =>
+            setForm({ ...form, [field.id]: { ...form[field.id], mode: e.target.value as Mode } })
+          }
+          className="rounded-md border bg-background px-1 py-1"
+        >
+          <option value="change">change by</option>
+          <option value="value">set to</option>
+        </select>
+        <input
+          type="number"
+          value={form[field.id].amount}
+          placeholder={field.unit || "value"}
+          onChange={(e) =>
+            setForm({ ...form, [field.id]: { ...form[field.id], amount: e.target.value } })
+          }
+          className="w-full rounded-md border bg-background px-2 py-1"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scenario Simulator</CardTitle>
+        <CardDescription>
+          Override liquidity ($B) or PMI and see how today&apos;s index would change, e.g. RRP
+          set to 0 or the TGA rebuilt by 300
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {LIQUIDITY_FIELDS.map(renderField)}
+          {renderField(PMI_FIELD)}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => submit(false)}
+            disabled={running}
+            className="flex items-center gap-2 px-3 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Play className="h-4 w-4" />
+            {running ? "Running..." : "Run"}
+          </button>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scenario name"
+            className="rounded-md border bg-background px-2 py-1"
+          />
+          <button
+            onClick={() => submit(true)}
+            disabled={running || !name.trim()}
+            className="flex items-center gap-2 px-3 py-1 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            Save
+          </button>
+          <button
+            onClick={() => {
+              setForm(EMPTY_FORM);
+              setName("");
+              setResult(null);
+            }}
+            className="px-3 py-1 rounded-md text-muted-foreground hover:bg-secondary/50"
+          >
+            Reset
+          </button>
+        </div>
+
+        {(runError || saved.error) && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {runError ??
+              (saved.error instanceof Error ? saved.error.message : "Failed to load scenarios")}
+          </div>
+        )}
+
+        {result && <ScenarioComparison result={result} />}
+
+        <div className="space-y-2">
+          <div className="font-medium">Saved scenarios</div>
+          {saved.isLoading && <Skeleton className="h-16 w-full" />}
+          {saved.data && saved.data.scenarios.length === 0 && (
+            <div className="text-muted-foreground">No saved scenarios yet.</div>
+          )}
+          {saved.data && saved.data.scenarios.length > 0 && (
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal">Name</th>
+                  <th className="font-normal text-right">Index</th>
+                  <th className="font-normal text-right">vs today</th>
+                  <th className="font-normal text-right">Band</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {saved.data.scenarios.map((scenario) => {
+                  const scenarioResult = saved.data.results.find((r) => r.name === scenario.name);
+                  return (
+                    <tr
+                      key={scenario.name}
+                      onClick={() => load(scenario, scenarioResult)}
+                      className="cursor-pointer border-t hover:bg-secondary/50"
+                    >
+                      <td className="py-1">
+                        {scenario.name}
+                        {scenario.description && (
+                          <span className="text-muted-foreground"> — {scenario.description}</span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right">
+                        {scenarioResult?.scenario.directionIndex.index.toFixed(1) ?? "—"}
+                      </td>
+                      <td className="py-1 text-right">
+                        {scenarioResult ? formatChange(scenarioResult.indexChange) : "—"}
+                      </td>
+                      <td className="py-1 text-right">
+                        {scenarioResult
+                          ? formatBand(scenarioResult.scenario.directionIndex.interpretation)
+                          : "—"}
+                      </td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            remove(scenario.name);
+                          }}
+                          className="text-muted-foreground hover:text-destructive"
+                          aria-label={`Delete ${scenario.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { AlertCircle, Camera } from "lucide-react";
+import { IndexSnapshot, SnapshotComparison } from "@/lib/types";
+
+interface SnapshotsResponse {
+  profile: string;
+  count: number;
+  comparisons: SnapshotComparison[];
+}
+
+interface SnapshotDetailResponse {
+  snapshot: IndexSnapshot;
+  comparison: SnapshotComparison;
+}
+
+async function fetchJSON<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: "Unknown error" }));
+    throw new Error(`Snapshots API error: ${error.error || response.statusText}`);
+  }
+  return await response.json();
+}
+
+function formatDifference(value: number | null): string {
+  if (value === null) return "—";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+function SnapshotDetail({ date }: { date: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["snapshot", date],
+    queryFn: () =>
+      fetchJSON<SnapshotDetailResponse>(`/api/snapshots?date=${encodeURIComponent(date)}`),
+  });
+
+  if (isLoading) return <Skeleton className="h-32 w-full" />;
+  if (error || !data) {
+    return (
+      <div className="flex items-center gap-2 text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        {error instanceof Error ? error.message : "Failed to load snapshot"}
+      </div>
+    );
+  }
+
+  const { snapshot, comparison } = data;
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-1">
+        <div className="font-medium">Factors (recorded score, change on recompute)</div>
+        {snapshot.directionIndex.factors.map((factor) => (
+          <div key={factor.id} className="flex justify-between">
+            <span className="text-muted-foreground">{factor.label}</span>
+            <span>
+              {factor.available ? factor.score.toFixed(2) : "n/a"}
+              {comparison.factorDifferences[factor.id] !== undefined &&
+                ` (${formatDifference(comparison.factorDifferences[factor.id])})`}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2">
+          <span className="text-muted-foreground">BTC price (recorded / close)</span>
+          <span>
+            ${snapshot.bitcoinPrice.price.toLocaleString()} /{" "}
+            {comparison.closePrice === null ? "—" : `$${comparison.closePrice.toLocaleString()}`}
+          </span>
+        </div>
+        {!snapshot.quality.ok && (
+          <div className="text-muted-foreground">
+            {snapshot.quality.issues.length} data quality issue(s) when recorded
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <div className="font-medium">Data vintages</div>
+        {Object.entries(snapshot.vintages).map(([input, vintage]) => (
+          <div key={input} className="flex justify-between">
+            <span className="text-muted-foreground">{input}</span>
+            <span>
+              {vintage.lastDate ?? "—"}
+              {vintage.syncedAt !== null &&
+                ` (synced ${new Date(vintage.syncedAt).toLocaleString()})`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function SnapshotsPanel() {
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["snapshots"],
+    queryFn: () => fetchJSON<SnapshotsResponse>("/api/snapshots"),
+  });
+  const [selected, setSelected] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
+
+  const record = async () => {
+    try {
+      setRecording(true);
+      setRecordError(null);
+      await fetchJSON<IndexSnapshot>("/api/snapshots", { method: "POST" });
+      await queryClient.invalidateQueries({ queryKey: ["snapshots"] });
+      await queryClient.invalidateQueries({ queryKey: ["snapshot"] });
+    } catch (err: unknown) {
+      setRecordError(err instanceof Error ? err.message : "Failed to record snapshot");
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const comparisons = data?.comparisons ?? [];
+  const recent = [...comparisons].reverse().slice(0, 30);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Recorded Snapshots</CardTitle>
+            <CardDescription>
+              What the index said each day, compared with today&apos;s replay of the same day
+            </CardDescription>
+          </div>
+          <button
+            onClick={record}
+            disabled={recording}
+            className="flex items-center gap-2 px-3 py-1 rounded-md text-sm bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50"
+          >
+            <Camera className="h-4 w-4" />
+            {recording ? "Recording..." : "Record now"}
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {isLoading && <Skeleton className="h-64 w-full" />}
+
+        {(error || recordError) && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {recordError ?? (error instanceof Error ? error.message : "Failed to load snapshots")}
+          </div>
+        )}
+
+        {data && comparisons.length === 0 && (
+          <div className="text-muted-foreground">
+            No snapshots recorded yet. The server records one per day.
+          </div>
+        )}
+
+        {comparisons.length > 0 && (
+          <>
+            <ResponsiveContainer width="100%" height={240}>
+              <LineChart data={comparisons} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="date" className="text-xs" tick={{ fill: "currentColor" }} />
+                <YAxis domain={[0, 100]} tick={{ fill: "currentColor" }} className="text-xs" />
+                <Tooltip
+                  formatter={(value: number | undefined) =>
+                    value === undefined ? "" : value.toFixed(2)
+                  }
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="recordedIndex"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Recorded"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="recomputedIndex"
+                  stroke="hsl(38, 92%, 50%)"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  name="Recomputed"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal">Date</th>
+                  <th className="font-normal text-right">Recorded</th>
+                  <th className="font-normal text-right">Recomputed</th>
+                  <th className="font-normal text-right">Difference</th>
+                  <th className="font-normal text-right">Config</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((c) => (
+                  <tr
+                    key={c.date}
+                    onClick={() => setSelected(selected === c.date ? null : c.date)}
+                    className={`cursor-pointer border-t hover:bg-secondary/50 ${
+                      selected === c.date ? "bg-secondary/50" : ""
+                    }`}
+                  >
+                    <td className="py-1">{c.date}</td>
+                    <td className="py-1 text-right">{c.recordedIndex.toFixed(2)}</td>
+                    <td className="py-1 text-right">
+                      {c.recomputedIndex === null ? "—" : c.recomputedIndex.toFixed(2)}
+                    </td>
+                    <td className="py-1 text-right">{formatDifference(c.difference)}</td>
+                    <td className="py-1 text-right">
+                      <Badge variant="outline" className="font-mono">
+                        {c.configVersion.slice(0, 7)}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {selected && <SnapshotDetail date={selected} />}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
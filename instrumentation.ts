@@ -0,0 +1,15 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  // Background refreshes, alert evaluation and snapshot recording need the Node.js runtime
+  // (fs, SMTP); skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startRefreshWorker } = await import("./lib/refresh/scheduler");
+    const { startAlertScheduler } = await import("./lib/alerts/scheduler");
+    const { startSnapshotRecorder } = await import("./lib/snapshots/scheduler");
+    startRefreshWorker();
+    startAlertScheduler();
+    startSnapshotRecorder();
+  }
+}
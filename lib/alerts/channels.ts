@@ -0,0 +1,72 @@
+import axios from "axios";
+import nodemailer from "nodemailer";
+import { AlertChannel, AlertEvent } from "../types";
+
+/**
+ * Delivers fired alerts to one kind of destination
+ * Handlers throw when delivery fails; the engine records the error on the event
+ */
+export interface AlertChannelHandler<T extends AlertChannel = AlertChannel> {
+  type: T["type"];
+  deliver(channel: T, event: AlertEvent): Promise<void>;
+}
+
+const handlers = new Map<string, AlertChannelHandler>();
+
+/**
+ * Add a channel handler, replacing any handler for the same channel type
+ */
+export function registerAlertChannel<T extends AlertChannel>(handler: AlertChannelHandler<T>): void {
+  handlers.set(handler.type, handler as unknown as AlertChannelHandler);
+}
+
+export function getAlertChannel(type: string): AlertChannelHandler | undefined {
+  return handlers.get(type);
+}
+
+// POSTs the event as JSON
+registerAlertChannel<Extract<AlertChannel, { type: "webhook" }>>({
+  type: "webhook",
+  async deliver(channel, event) {
+    await axios.post(channel.url, event, { timeout: 10000 });
+  },
+});
+
+// SMTP settings come from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and ALERT_EMAIL_FROM
+let transport: nodemailer.Transporter | null = null;
+
+function getTransport(): nodemailer.Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP is not configured (set SMTP_HOST)");
+  }
+  if (!transport) {
+    const port = Number(process.env.SMTP_PORT || 587);
+    transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return transport;
+}
+
+registerAlertChannel<Extract<AlertChannel, { type: "email" }>>({
+  type: "email",
+  async deliver(channel, event) {
+    await getTransport().sendMail({
+      from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER,
+      to: channel.to,
+      subject: `Bitcoin Direction Index: ${event.ruleName}`,
+      text: `${event.message}\n\nProfile: ${event.snapshot.profile}\nTime: ${new Date(event.timestamp).toISOString()}`,
+    });
+  },
+});
+
+// Nothing to send: open dashboards poll the event history and raise desktop notifications
+registerAlertChannel<Extract<AlertChannel, { type: "browser" }>>({
+  type: "browser",
+  async deliver() {},
+});
@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto";
+import { getIndexProfile } from "../index-profiles";
+import { computeLiveIndex } from "../live-index";
+import { AlertDelivery, AlertEvent, AlertRule, AlertSnapshot } from "../types";
+import { getAlertChannel } from "./channels";
+import { describeAlert, shouldFire } from "./rules";
+import {
+  appendAlertEvents,
+  listAlertRules,
+  readAlertSnapshots,
+  writeAlertSnapshots,
+} from "./store";
+
+let pendingEvaluation: Promise<AlertEvent[]> | null = null;
+
+async function takeSnapshot(profile: string): Promise<AlertSnapshot> {
+  const config = await getIndexProfile(profile);
+  if (!config) {
+    throw new Error(`Unknown index profile: ${profile}`);
+  }
+
+  const { date, directionIndex, previousClose } = await computeLiveIndex(config);
+  return {
+    timestamp: directionIndex.timestamp,
+    date,
+    profile: config.name,
+    index: directionIndex.index,
+    interpretation: directionIndex.interpretation,
+    change: previousClose ? directionIndex.index - previousClose.index : null,
+    factorScores: Object.fromEntries(
+      directionIndex.factors.filter((f) => f.available).map((f) => [f.id, f.score])
+    ),
+  };
+}
+
+async function deliver(rule: AlertRule, event: AlertEvent): Promise<AlertDelivery[]> {
+  return Promise.all(
+    rule.channels.map(async (channel): Promise<AlertDelivery> => {
+      try {
+        const handler = getAlertChannel(channel.type);
+        if (!handler) throw new Error(`No handler for channel ${channel.type}`);
+        await handler.deliver(channel, event);
+        return { channel: channel.type, ok: true };
+      } catch (error: unknown) {
+        console.error(`Alert "${rule.name}" failed to deliver via ${channel.type}:`, error);
+        const message = error instanceof Error ? error.message : "Delivery failed";
+        return { channel: channel.type, ok: false, error: message };
+      }
+    })
+  );
+}
+
+async function runEvaluation(): Promise<AlertEvent[]> {
+  const rules = (await listAlertRules()).filter((r) => r.enabled);
+  if (rules.length === 0) return [];
+
+  const snapshots = await readAlertSnapshots();
+  const profiles = Array.from(new Set(rules.map((r) => r.profile || "default")));
+  const events: AlertEvent[] = [];
+
+  for (const profile of profiles) {
+    let current: AlertSnapshot;
+    try {
+      current = await takeSnapshot(profile);
+    } catch (error) {
+      // One failing profile shouldn't stop the others; its rules are retried next run
+      console.error(`Alert evaluation failed for profile ${profile}:`, error);
+      continue;
+    }
+
+    const previous = snapshots[profile];
+    for (const rule of rules.filter((r) => (r.profile || "default") === profile)) {
+      if (!previous || !shouldFire(rule.condition, current, previous)) continue;
+
+      const event: AlertEvent = {
+        id: randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        timestamp: Date.now(),
+        message: describeAlert(rule.condition, current, previous),
+        snapshot: current,
+        deliveries: [],
+      };
+      event.deliveries = await deliver(rule, event);
+      events.push(event);
+    }
+
+    snapshots[profile] = current;
+  }
+
+  await appendAlertEvents(events);
+  await writeAlertSnapshots(snapshots);
+  return events;
+}
+
+/**
+ * Evaluate every enabled rule against the live index and deliver the alerts that fire
+ * Concurrent calls share one evaluation
+ */
+export function evaluateAlerts(): Promise<AlertEvent[]> {
+  if (!pendingEvaluation) {
+    pendingEvaluation = runEvaluation().finally(() => {
+      pendingEvaluation = null;
+    });
+  }
+  return pendingEvaluation;
+}
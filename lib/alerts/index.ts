@@ -0,0 +1,11 @@
+export { evaluateAlerts } from "./engine";
+export { registerAlertChannel, getAlertChannel } from "./channels";
+export type { AlertChannelHandler } from "./channels";
+export { validateAlertRule, shouldFire, describeAlert } from "./rules";
+export {
+  listAlertRules,
+  saveAlertRule,
+  deleteAlertRule,
+  listAlertEvents,
+} from "./store";
+export { startAlertScheduler, stopAlertScheduler } from "./scheduler";
@@ -0,0 +1,142 @@
+import { getFactor } from "../factors";
+import { AlertCondition, AlertRule, AlertSnapshot, IndexInterpretation } from "../types";
+
+const INTERPRETATIONS: IndexInterpretation[] = [
+  "very_bearish",
+  "bearish",
+  "neutral",
+  "bullish",
+  "very_bullish",
+];
+
+const CHANNEL_TYPES = ["webhook", "email", "browser"];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Validate an alert rule
+ * Returns a list of problems; an empty list means the rule is usable
+ */
+export function validateAlertRule(rule: AlertRule): string[] {
+  const errors: string[] = [];
+
+  if (!rule.name || typeof rule.name !== "string") {
+    errors.push("name is required");
+  }
+
+  const condition = rule.condition;
+  switch (condition?.type) {
+    case "threshold":
+      if (!isFiniteNumber(condition.level) || condition.level < 0 || condition.level > 100) {
+        errors.push("threshold level must be between 0 and 100");
+      }
+      if (condition.direction !== "above" && condition.direction !== "below") {
+        errors.push('threshold direction must be "above" or "below"');
+      }
+      break;
+    case "interpretation":
+      if (!INTERPRETATIONS.includes(condition.to)) {
+        errors.push(`interpretation must be one of: ${INTERPRETATIONS.join(", ")}`);
+      }
+      if (condition.from !== undefined && !INTERPRETATIONS.includes(condition.from)) {
+        errors.push(`from must be one of: ${INTERPRETATIONS.join(", ")}`);
+      }
+      break;
+    case "factor":
+      if (!getFactor(condition.factorId)) {
+        errors.push(`unknown factor: ${condition.factorId}`);
+      }
+      if (!isFiniteNumber(condition.zScore) || condition.zScore <= 0) {
+        errors.push("factor zScore must be a positive number");
+      }
+      break;
+    case "change":
+      if (!isFiniteNumber(condition.points) || condition.points <= 0) {
+        errors.push("change points must be a positive number");
+      }
+      break;
+    default:
+      errors.push("condition type must be threshold, interpretation, factor or change");
+  }
+
+  if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+    errors.push("at least one channel is required");
+  } else {
+    for (const channel of rule.channels) {
+      if (!CHANNEL_TYPES.includes(channel?.type)) {
+        errors.push(`unknown channel: ${channel?.type}`);
+      } else if (channel.type === "webhook" && !/^https?:\/\//.test(channel.url ?? "")) {
+        errors.push("webhook channels need an http(s) url");
+      } else if (channel.type === "email" && !/^[^@\s]+@[^@\s]+$/.test(channel.to ?? "")) {
+        errors.push("email channels need a valid address");
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isMet(condition: AlertCondition, snapshot: AlertSnapshot): boolean {
+  switch (condition.type) {
+    case "threshold":
+      return condition.direction === "above"
+        ? snapshot.index >= condition.level
+        : snapshot.index < condition.level;
+    case "interpretation":
+      return snapshot.interpretation === condition.to;
+    case "factor": {
+      const score = snapshot.factorScores[condition.factorId];
+      return score !== undefined && Math.abs(score) >= condition.zScore;
+    }
+    case "change":
+      return snapshot.change !== null && Math.abs(snapshot.change) >= condition.points;
+  }
+}
+
+/**
+ * Alerts fire on transitions: the condition holds now but did not at the previous evaluation
+ * Nothing fires on the first evaluation, when there is no previous snapshot to compare with
+ */
+export function shouldFire(
+  condition: AlertCondition,
+  current: AlertSnapshot,
+  previous: AlertSnapshot | undefined
+): boolean {
+  if (!previous || !isMet(condition, current) || isMet(condition, previous)) {
+    return false;
+  }
+  if (condition.type === "interpretation" && condition.from !== undefined) {
+    return previous.interpretation === condition.from;
+  }
+  return true;
+}
+
+const formatLabel = (interpretation: IndexInterpretation) => interpretation.replace("_", " ");
+
+/**
+ * Human-readable message for a fired alert
+ */
+export function describeAlert(
+  condition: AlertCondition,
+  current: AlertSnapshot,
+  previous: AlertSnapshot
+): string {
+  const now = `now ${current.index.toFixed(1)}`;
+  switch (condition.type) {
+    case "threshold":
+      return `Index crossed ${condition.direction} ${condition.level} (${now})`;
+    case "interpretation":
+      return `Index moved from ${formatLabel(previous.interpretation)} to ${formatLabel(current.interpretation)} (${now})`;
+    case "factor": {
+      const label = getFactor(condition.factorId)?.label ?? condition.factorId;
+      const score = current.factorScores[condition.factorId];
+      return `${label} z-score reached ${score.toFixed(2)} (limit ±${condition.zScore})`;
+    }
+    case "change": {
+      const change = current.change ?? 0;
+      return `Index moved ${change >= 0 ? "+" : ""}${change.toFixed(1)} points since the last close (${now})`;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { evaluateAlerts } from "./engine";
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Evaluate alerts on a fixed interval in the server process
+ * ALERTS_INTERVAL_MINUTES sets the interval; 0 disables the scheduler
+ */
+export function startAlertScheduler(): void {
+  const minutes = Number(process.env.ALERTS_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+  if (timer || !(minutes > 0)) return;
+
+  const run = () => {
+    evaluateAlerts()
+      .then((events) => {
+        if (events.length > 0) console.log(`Fired ${events.length} alert(s)`);
+      })
+      .catch((error) => console.error("Scheduled alert evaluation failed:", error));
+  };
+
+  timer = setInterval(run, minutes * 60 * 1000);
+  // Don't keep the process alive just for alerts
+  timer.unref();
+  run();
+}
+
+export function stopAlertScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
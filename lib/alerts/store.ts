@@ -0,0 +1,61 @@
+import { readJSON, writeJSON } from "../store/files";
+import { AlertEvent, AlertRule, AlertSnapshot } from "../types";
+
+// Rules, fired alerts and the last snapshot per profile live in the local data store
+const RULES_FILE = "alerts/rules.json";
+const EVENTS_FILE = "alerts/events.json";
+const SNAPSHOTS_FILE = "alerts/snapshots.json";
+
+// Oldest events are dropped beyond this many
+const MAX_EVENTS = 1000;
+
+export async function listAlertRules(): Promise<AlertRule[]> {
+  return (await readJSON<AlertRule[]>(RULES_FILE)) ?? [];
+}
+
+/**
+ * Save a rule, replacing any rule with the same id
+ */
+export async function saveAlertRule(rule: AlertRule): Promise<AlertRule> {
+  const rules = (await listAlertRules()).filter((r) => r.id !== rule.id);
+  rules.push(rule);
+  await writeJSON(RULES_FILE, rules);
+  return rule;
+}
+
+/**
+ * Delete a rule; returns false when no rule has the given id
+ */
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  const rules = await listAlertRules();
+  const remaining = rules.filter((r) => r.id !== id);
+  if (remaining.length === rules.length) return false;
+  await writeJSON(RULES_FILE, remaining);
+  return true;
+}
+
+/**
+ * Fired alerts, newest first
+ * `since` keeps only events after that timestamp (ms)
+ */
+export async function listAlertEvents(since?: number, limit?: number): Promise<AlertEvent[]> {
+  const events = (await readJSON<AlertEvent[]>(EVENTS_FILE)) ?? [];
+  const recent = events
+    .filter((e) => since === undefined || e.timestamp > since)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  return limit === undefined ? recent : recent.slice(0, limit);
+}
+
+export async function appendAlertEvents(events: AlertEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const stored = (await readJSON<AlertEvent[]>(EVENTS_FILE)) ?? [];
+  await writeJSON(EVENTS_FILE, [...stored, ...events].slice(-MAX_EVENTS));
+}
+
+export async function readAlertSnapshots(): Promise<Record<string, AlertSnapshot>> {
+  return (await readJSON<Record<string, AlertSnapshot>>(SNAPSHOTS_FILE)) ?? {};
+}
+
+export async function writeAlertSnapshots(snapshots: Record<string, AlertSnapshot>): Promise<void> {
+  await writeJSON(SNAPSHOTS_FILE, snapshots);
+}
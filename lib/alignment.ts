@@ -0,0 +1,80 @@
+import { FREDData } from "./types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A series value carried forward to a calendar date
+ */
+export interface AlignedObservation {
+  date: string; // calendar date
+  value: number;
+  sourceDate: string; // date of the observation the value came from
+  staleDays: number; // days between the observation and the calendar date
+}
+
+export interface ForwardFillOptions {
+  // Values older than this are treated as missing rather than carried forward
+  maxStaleDays?: number;
+  // Value for calendar dates before the series' first observation (missing when omitted)
+  beforeStart?: number;
+  // When an observation became usable; defaults to its own date
+  knownFrom?: (obs: FREDData) => string;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+  );
+}
+
+/**
+ * Latest observation known on the date (series in chronological order)
+ */
+export function observationAsOf(
+  series: FREDData[],
+  date: string,
+  knownFrom: (obs: FREDData) => string = (obs) => obs.date
+): FREDData | undefined {
+  let found: FREDData | undefined;
+  for (const obs of series) {
+    if (knownFrom(obs) > date) break;
+    found = obs;
+  }
+  return found;
+}
+
+/**
+ * Carry a series forward onto a calendar (e.g. daily RRP onto the Fed's weekly dates)
+ * Both must be in chronological order. Returns null for dates with no usable value,
+ * instead of defaulting to 0
+ */
+export function forwardFill(
+  series: FREDData[],
+  calendar: string[],
+  options: ForwardFillOptions = {}
+): (AlignedObservation | null)[] {
+  const { maxStaleDays, beforeStart, knownFrom = (obs: FREDData) => obs.date } = options;
+  const first = series[0];
+  let next = 0;
+  let latest: FREDData | undefined;
+
+  return calendar.map((date) => {
+    while (next < series.length && knownFrom(series[next]) <= date) {
+      latest = series[next++];
+    }
+
+    if (!latest) {
+      // Only a date before the series starts gets the beforeStart value
+      return beforeStart !== undefined && (!first || date < first.date)
+        ? { date, value: beforeStart, sourceDate: date, staleDays: 0 }
+        : null;
+    }
+
+    const staleDays = daysBetween(latest.date, date);
+    if (maxStaleDays !== undefined && staleDays > maxStaleDays) return null;
+    return { date, value: latest.value, sourceDate: latest.date, staleDays };
+  });
+}
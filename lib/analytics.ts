@@ -0,0 +1,183 @@
+import { toDailyCloses } from "./backtest";
+import { calculateCorrelation } from "./index-calculation";
+import { shiftDate } from "./publication-lag";
+import {
+  AnalyticsResult,
+  CorrelationEstimate,
+  IndexHistoryPoint,
+  RollingCorrelationPoint,
+  RollingCorrelationSeries,
+} from "./types";
+
+export interface AnalyticsOptions {
+  horizon?: number; // forward return horizon for the overall and rolling correlations, in days
+  windows?: number[]; // rolling correlation windows, in days
+  maxLag?: number; // furthest horizon in the lead/lag scan, in days
+}
+
+export const DEFAULT_ANALYTICS_OPTIONS: Required<AnalyticsOptions> = {
+  horizon: 30,
+  windows: [90, 180],
+  maxLag: 90,
+};
+
+const SIGNIFICANCE_LEVEL = 0.05;
+const Z_95 = 1.959964;
+
+interface ReturnPair {
+  point: IndexHistoryPoint;
+  forwardReturn: number;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, accurate to ~1e-7)
+ */
+function normalCDF(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Pair each daily index value with the BTC return over the following `horizon` days
+ * Points whose forward date is not in the history yet are dropped
+ */
+function forwardReturnPairs(daily: IndexHistoryPoint[], horizon: number): ReturnPair[] {
+  const priceByDate = new Map(daily.map((p) => [p.date, p.price]));
+  const pairs: ReturnPair[] = [];
+  for (const point of daily) {
+    const futurePrice = priceByDate.get(shiftDate(point.date, horizon));
+    if (futurePrice === undefined || point.price <= 0) continue;
+    pairs.push({ point, forwardReturn: futurePrice / point.price - 1 });
+  }
+  return pairs;
+}
+
+/**
+ * Correlation with a p-value and 95% interval
+ * Overlapping forward returns are far from independent, so significance uses
+ * n / horizon observations rather than n
+ */
+export function estimateCorrelation(
+  indexValues: number[],
+  returns: number[],
+  horizon: number
+): CorrelationEstimate {
+  const n = Math.min(indexValues.length, returns.length);
+  const correlation = calculateCorrelation(indexValues.slice(0, n), returns.slice(0, n));
+  const effectiveN = Math.floor(n / Math.max(1, horizon));
+
+  if (effectiveN < 4) {
+    return { horizon, correlation, n, effectiveN, pValue: 1, ciLow: -1, ciHigh: 1 };
+  }
+
+  // Fisher z-transform; keep |r| < 1 so atanh stays finite
+  const r = Math.max(-0.999999, Math.min(0.999999, correlation));
+  const z = Math.atanh(r);
+  const se = 1 / Math.sqrt(effectiveN - 3);
+
+  return {
+    horizon,
+    correlation,
+    n,
+    effectiveN,
+    pValue: 2 * (1 - normalCDF(Math.abs(z) / se)),
+    ciLow: Math.tanh(z - Z_95 * se),
+    ciHigh: Math.tanh(z + Z_95 * se),
+  };
+}
+
+/**
+ * Correlation of the index with BTC returns over the following `horizon` days
+ */
+export function forwardReturnCorrelation(
+  history: IndexHistoryPoint[],
+  horizon: number = DEFAULT_ANALYTICS_OPTIONS.horizon
+): CorrelationEstimate {
+  return estimatePairs(forwardReturnPairs(toDailyCloses(history), horizon), horizon);
+}
+
+function estimatePairs(pairs: ReturnPair[], horizon: number): CorrelationEstimate {
+  return estimateCorrelation(
+    pairs.map((p) => p.point.index),
+    pairs.map((p) => p.forwardReturn),
+    horizon
+  );
+}
+
+/**
+ * Correlation over a trailing window of days, stamped with the window's last signal date
+ */
+function rollingCorrelation(pairs: ReturnPair[], window: number): RollingCorrelationSeries {
+  const points: RollingCorrelationPoint[] = [];
+  for (let i = window - 1; i < pairs.length; i++) {
+    const slice = pairs.slice(i - window + 1, i + 1);
+    points.push({
+      timestamp: pairs[i].point.timestamp,
+      date: pairs[i].point.date,
+      correlation: calculateCorrelation(
+        slice.map((p) => p.point.index),
+        slice.map((p) => p.forwardReturn)
+      ),
+    });
+  }
+  return { window, points };
+}
+
+/**
+ * Relate index levels to subsequent BTC returns (not price levels, which trend together)
+ * - overall and rolling correlations at one forward horizon
+ * - a lead/lag scan of horizons 1 to maxLag days ahead
+ */
+export function analyzeIndexHistory(
+  history: IndexHistoryPoint[],
+  options: AnalyticsOptions = {}
+): AnalyticsResult {
+  const { horizon, windows, maxLag } = { ...DEFAULT_ANALYTICS_OPTIONS, ...options };
+  const daily = toDailyCloses(history);
+
+  const pairs = forwardReturnPairs(daily, horizon);
+  const overall = estimatePairs(pairs, horizon);
+
+  const leadLag: CorrelationEstimate[] = [];
+  for (let lag = 1; lag <= maxLag; lag++) {
+    leadLag.push(estimatePairs(forwardReturnPairs(daily, lag), lag));
+  }
+
+  const bestLag =
+    leadLag
+      .filter((e) => e.pValue < SIGNIFICANCE_LEVEL)
+      .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation))[0] ?? null;
+
+  return {
+    start: daily[0]?.date ?? "",
+    end: daily[daily.length - 1]?.date ?? "",
+    horizon,
+    overall,
+    rolling: windows.map((window) => rollingCorrelation(pairs, window)),
+    leadLag,
+    bestLag,
+  };
+}
+
+/**
+ * Check analytics options
+ * Returns an error message, or null when the options are valid
+ */
+export function validateAnalyticsOptions(options: Required<AnalyticsOptions>): string | null {
+  const isWholeDays = (value: number, max: number) =>
+    Number.isInteger(value) && value >= 1 && value <= max;
+
+  if (!isWholeDays(options.horizon, 365)) {
+    return "horizon must be a whole number of days between 1 and 365";
+  }
+  if (!isWholeDays(options.maxLag, 90)) {
+    return "maxLag must be a whole number of days between 1 and 90";
+  }
+  if (options.windows.length === 0 || options.windows.some((w) => !isWholeDays(w, 3650) || w < 10)) {
+    return "windows must be whole numbers of days between 10 and 3650";
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * A crypto asset the index can be computed for
+ * The macro factors are shared; only the price (and so the trend factor) differs
+ */
+export interface AssetSpec {
+  id: string; // used in query strings and store keys, e.g. "eth"
+  symbol: string;
+  name: string;
+  coinbaseProduct: string; // Coinbase Exchange product id
+  coingeckoId: string; // CoinGecko coin id
+  futuresSymbol: string; // Binance USDⓈ-M perpetual (and quarterly futures pair)
+  spotSymbol: string; // Binance spot pair (quoted in USDT)
+  krakenPair: string; // Kraken spot pair
+  bitstampPair: string; // Bitstamp spot pair
+}
+
+export const ASSETS: AssetSpec[] = [
+  {
+    id: "btc",
+    symbol: "BTC",
+    name: "Bitcoin",
+    coinbaseProduct: "BTC-USD",
+    coingeckoId: "bitcoin",
+    futuresSymbol: "BTCUSDT",
+    spotSymbol: "BTCUSDT",
+    krakenPair: "XBTUSD",
+    bitstampPair: "btcusd",
+  },
+  {
+    id: "eth",
+    symbol: "ETH",
+    name: "Ethereum",
+    coinbaseProduct: "ETH-USD",
+    coingeckoId: "ethereum",
+    futuresSymbol: "ETHUSDT",
+    spotSymbol: "ETHUSDT",
+    krakenPair: "ETHUSD",
+    bitstampPair: "ethusd",
+  },
+  {
+    id: "sol",
+    symbol: "SOL",
+    name: "Solana",
+    coinbaseProduct: "SOL-USD",
+    coingeckoId: "solana",
+    futuresSymbol: "SOLUSDT",
+    spotSymbol: "SOLUSDT",
+    krakenPair: "SOLUSD",
+    bitstampPair: "solusd",
+  },
+];
+
+export const DEFAULT_ASSET = ASSETS[0];
+
+/**
+ * Resolve an asset by id (BTC when no id is given)
+ * Returns undefined for unknown ids
+ */
+export function getAsset(id?: string | null): AssetSpec | undefined {
+  if (!id) return DEFAULT_ASSET;
+  return ASSETS.find((asset) => asset.id === id.toLowerCase());
+}
@@ -0,0 +1,201 @@
+import {
+  BacktestRules,
+  BacktestMetrics,
+  BacktestEquityPoint,
+  BacktestResult,
+  IndexHistoryPoint,
+} from "./types";
+
+const PERIODS_PER_YEAR = 365; // Bitcoin trades every day
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BACKTEST_RULES: BacktestRules = {
+  longAbove: 60,
+  flatBelow: 40,
+  feeBps: 10,
+};
+
+/**
+ * Check that a set of rules is internally consistent
+ * Returns an error message, or null when the rules are valid
+ */
+export function validateBacktestRules(rules: BacktestRules): string | null {
+  const levels = [rules.longAbove, rules.flatBelow, rules.shortBelow];
+  if (levels.some((l) => l !== undefined && (!isFinite(l) || l < 0 || l > 100))) {
+    return "Thresholds must be numbers between 0 and 100";
+  }
+  if (rules.flatBelow > rules.longAbove) {
+    return "flatBelow must not be greater than longAbove";
+  }
+  if (rules.shortBelow !== undefined && rules.shortBelow > rules.flatBelow) {
+    return "shortBelow must not be greater than flatBelow";
+  }
+  if (!isFinite(rules.feeBps) || rules.feeBps < 0) {
+    return "feeBps must be a non-negative number";
+  }
+  return null;
+}
+
+/**
+ * Collapse intraday points to one close per calendar day
+ */
+export function toDailyCloses(points: IndexHistoryPoint[]): IndexHistoryPoint[] {
+  const byDate = new Map<string, IndexHistoryPoint>();
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    byDate.set(point.date, point);
+  }
+  return Array.from(byDate.values());
+}
+
+/**
+ * Decide the position for today's close given yesterday's position
+ * Between flatBelow and longAbove the previous position is kept (hysteresis)
+ */
+function nextPosition(index: number, previous: number, rules: BacktestRules): number {
+  if (index >= rules.longAbove) return 1;
+  if (rules.shortBelow !== undefined && index < rules.shortBelow) return -1;
+  if (index < rules.flatBelow) return previous === -1 ? -1 : 0;
+  // Leave a short once we are back above flatBelow
+  return previous === -1 ? 0 : previous;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Compute performance statistics for a series of per-period returns
+ */
+function calculateMetrics(
+  returns: number[],
+  positions: number[],
+  equity: number[],
+  years: number
+): BacktestMetrics {
+  const finalEquity = equity[equity.length - 1] ?? 1;
+  const totalReturn = finalEquity - 1;
+  const cagr = years > 0 && finalEquity > 0 ? Math.pow(finalEquity, 1 / years) - 1 : 0;
+
+  let peak = equity[0] ?? 1;
+  let maxDrawdown = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.min(maxDrawdown, value / peak - 1);
+  }
+
+  const avg = mean(returns);
+  const stdDev = Math.sqrt(mean(returns.map((r) => Math.pow(r - avg, 2))));
+  const downsideDev = Math.sqrt(mean(returns.map((r) => Math.pow(Math.min(r, 0), 2))));
+  const sharpe = stdDev === 0 ? 0 : (avg / stdDev) * Math.sqrt(PERIODS_PER_YEAR);
+  const sortino = downsideDev === 0 ? 0 : (avg / downsideDev) * Math.sqrt(PERIODS_PER_YEAR);
+
+  // Hit rate only counts periods where we were actually in the market
+  const activeReturns = returns.filter((_, i) => positions[i] !== 0);
+  const hitRate =
+    activeReturns.length === 0
+      ? 0
+      : activeReturns.filter((r) => r > 0).length / activeReturns.length;
+
+  let positionChange = 0;
+  let trades = 0;
+  let previous = 0;
+  for (const position of positions) {
+    if (position !== previous) {
+      positionChange += Math.abs(position - previous);
+      trades++;
+    }
+    previous = position;
+  }
+
+  return {
+    totalReturn,
+    cagr,
+    maxDrawdown,
+    sharpe,
+    sortino,
+    hitRate,
+    turnover: years > 0 ? positionChange / years : positionChange,
+    exposure:
+      positions.length === 0
+        ? 0
+        : positions.filter((p) => p !== 0).length / positions.length,
+    trades,
+  };
+}
+
+/**
+ * Walk forward through index history and simulate rule-based positioning
+ * The position decided at each close is only applied to the following period's return,
+ * so a signal never trades on the price it was computed from
+ */
+export function runBacktest(
+  history: IndexHistoryPoint[],
+  rules: BacktestRules = DEFAULT_BACKTEST_RULES
+): BacktestResult {
+  const daily = toDailyCloses(history);
+
+  const equityCurve: BacktestEquityPoint[] = [];
+  const strategyReturns: number[] = [];
+  const heldPositions: number[] = [];
+  const buyAndHoldReturns: number[] = [];
+
+  const fee = rules.feeBps / 10000;
+  let position = 0;
+  let strategyEquity = 1;
+  let buyAndHoldEquity = 1;
+
+  daily.forEach((point, i) => {
+    if (i > 0) {
+      const previous = daily[i - 1];
+      const assetReturn = previous.price > 0 ? point.price / previous.price - 1 : 0;
+      const strategyReturn = position * assetReturn;
+
+      strategyEquity *= 1 + strategyReturn;
+      buyAndHoldEquity *= 1 + assetReturn;
+      strategyReturns.push(strategyReturn);
+      heldPositions.push(position);
+      buyAndHoldReturns.push(assetReturn);
+    }
+
+    const target = nextPosition(point.index, position, rules);
+    if (target !== position) {
+      strategyEquity *= 1 - Math.abs(target - position) * fee;
+      position = target;
+    }
+
+    equityCurve.push({
+      timestamp: point.timestamp,
+      date: point.date,
+      index: point.index,
+      price: point.price,
+      position,
+      strategy: strategyEquity,
+      buyAndHold: buyAndHoldEquity,
+    });
+  });
+
+  const first = daily[0];
+  const last = daily[daily.length - 1];
+  const years = first && last ? (last.timestamp - first.timestamp) / MS_PER_DAY / 365 : 0;
+
+  return {
+    rules,
+    start: first?.date ?? "",
+    end: last?.date ?? "",
+    periods: strategyReturns.length,
+    strategy: calculateMetrics(
+      strategyReturns,
+      heldPositions,
+      equityCurve.map((p) => p.strategy),
+      years
+    ),
+    buyAndHold: calculateMetrics(
+      buyAndHoldReturns,
+      buyAndHoldReturns.map(() => 1),
+      equityCurve.map((p) => p.buyAndHold),
+      years
+    ),
+    equityCurve,
+  };
+}
@@ -0,0 +1,55 @@
+import { Candle, PricePoint } from "./types";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Candles closed by `asOf` (ms), assuming chronological order
+ */
+export function closedCandles(candles: Candle[], asOf: number): Candle[] {
+  // Binary search for the first candle still open at asOf
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].timestamp + candles[mid].durationMs <= asOf) lo = mid + 1;
+    else hi = mid;
+  }
+  return candles.slice(0, lo);
+}
+
+/**
+ * Candles that closed within the `durationMs` before `asOf`
+ */
+export function candlesWithin(candles: Candle[], asOf: number, durationMs: number): Candle[] {
+  const start = asOf - durationMs;
+  return closedCandles(candles, asOf).filter((c) => c.timestamp + c.durationMs > start);
+}
+
+/**
+ * Bucket price points into candles of a fixed duration (volume unknown, so 0)
+ * Used when no exchange candles are available
+ */
+export function candlesFromPrices(points: PricePoint[], durationMs: number = DAY_MS): Candle[] {
+  const candles: Candle[] = [];
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    const timestamp = Math.floor(point.timestamp / durationMs) * durationMs;
+    const last = candles[candles.length - 1];
+    if (last && last.timestamp === timestamp) {
+      last.high = Math.max(last.high, point.price);
+      last.low = Math.min(last.low, point.price);
+      last.close = point.price;
+      continue;
+    }
+    candles.push({
+      timestamp,
+      date: new Date(timestamp).toISOString().split("T")[0],
+      durationMs,
+      open: point.price,
+      high: point.price,
+      low: point.price,
+      close: point.price,
+      volume: 0,
+    });
+  }
+  return candles;
+}
@@ -0,0 +1,244 @@
+import { daysBetween } from "./alignment";
+import type { IndexHistoryInputs } from "./index-history";
+import { ONCHAIN_FACTOR_IDS } from "./factors";
+import { ONCHAIN_PROVIDER_NAME, USING_DEMO_FRED_KEY } from "./providers";
+import { calculateStats } from "./statistics";
+import {
+  AssetPrice,
+  BitcoinDirectionIndex,
+  DataQuality,
+  IndexConfig,
+  QualityIssue,
+} from "./types";
+
+interface SeriesRule {
+  maxGapDays: number; // longest expected interval between observations
+  maxAgeDays: number; // oldest acceptable last observation
+  allowZero?: boolean; // e.g. RRP usage can legitimately be 0
+  allowNegative?: boolean;
+  required?: boolean; // missing or stale data is an error rather than a warning
+}
+
+const SERIES_RULES: Record<string, SeriesRule> = {
+  WALCL: { maxGapDays: 10, maxAgeDays: 14, required: true },
+  WTREGEN: { maxGapDays: 10, maxAgeDays: 14, required: true },
+  RRPONTSYD: { maxGapDays: 7, maxAgeDays: 7, allowZero: true, required: true },
+  pmi: { maxGapDays: 45, maxAgeDays: 75, required: true },
+  price: { maxGapDays: 3, maxAgeDays: 2, required: true }, // daily closes of the asset
+  ecb: { maxGapDays: 10, maxAgeDays: 21 },
+  boj: { maxGapDays: 45, maxAgeDays: 75 },
+  pboc: { maxGapDays: 45, maxAgeDays: 75 },
+};
+
+// Additional factors come in every frequency and sign; only emptiness and jumps are checked
+const EXTRA_FACTOR_RULE: SeriesRule = {
+  maxGapDays: Infinity,
+  maxAgeDays: Infinity,
+  allowZero: true,
+  allowNegative: true,
+};
+
+// A latest change this many standard deviations from recent changes is flagged
+const OUTLIER_Z = 6;
+const OUTLIER_LOOKBACK = 52;
+
+// The live price this far from the last stored close points at a bad quote
+const MAX_LIVE_PRICE_DEVIATION = 0.25;
+
+/**
+ * Run the per-series checks: missing, gaps, non-positive values, outliers and staleness
+ */
+function checkSeries(
+  input: string,
+  series: { date: string; value: number }[],
+  rule: SeriesRule,
+  asOf: string
+): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const severity = rule.required ? "error" : "warning";
+
+  if (series.length === 0) {
+    return [{ input, check: "missing", severity, message: `No ${input} data available` }];
+  }
+
+  const gaps = series
+    .slice(1)
+    .map((obs, i) => ({ date: obs.date, days: daysBetween(series[i].date, obs.date) }))
+    .filter((gap) => gap.days > rule.maxGapDays);
+  if (gaps.length > 0) {
+    const latest = gaps[gaps.length - 1];
+    issues.push({
+      input,
+      check: "gap",
+      severity: "warning",
+      message: `${gaps.length} gap(s) in ${input}; the latest is ${latest.days} days before ${latest.date}`,
+      date: latest.date,
+    });
+  }
+
+  const invalid = series.filter(
+    (obs) =>
+      !isFinite(obs.value) ||
+      (!rule.allowNegative && obs.value < 0) ||
+      (!rule.allowZero && !rule.allowNegative && obs.value === 0)
+  );
+  if (invalid.length > 0) {
+    const latest = invalid[invalid.length - 1];
+    const affectsLatest = latest === series[series.length - 1];
+    issues.push({
+      input,
+      check: "non_positive",
+      severity: affectsLatest ? "error" : "warning",
+      message: `${invalid.length} invalid ${input} value(s), latest ${latest.value} on ${latest.date}`,
+      date: latest.date,
+    });
+  }
+
+  // Compare the latest change with the spread of recent changes
+  const recent = series.slice(-OUTLIER_LOOKBACK - 1);
+  if (recent.length > 10) {
+    const changes = recent.slice(1).map((obs, i) => obs.value - recent[i].value);
+    const latestChange = changes[changes.length - 1];
+    const { mean, stdDev } = calculateStats(changes.slice(0, -1));
+    const z = (latestChange - mean) / stdDev;
+    if (Math.abs(z) > OUTLIER_Z) {
+      const last = series[series.length - 1];
+      issues.push({
+        input,
+        check: "outlier",
+        severity: "warning",
+        message: `Latest ${input} change is ${z.toFixed(1)}σ from recent changes`,
+        date: last.date,
+      });
+    }
+  }
+
+  const last = series[series.length - 1];
+  const age = daysBetween(last.date, asOf);
+  if (age > rule.maxAgeDays) {
+    issues.push({
+      input,
+      check: "stale",
+      severity,
+      message: `Latest ${input} observation is ${age} days old (${last.date})`,
+      date: last.date,
+    });
+  }
+
+  return issues;
+}
+
+export interface QualityContext {
+  asOf: string; // date the inputs are evaluated on
+  config: IndexConfig;
+  directionIndex?: BitcoinDirectionIndex; // flags factors that fell back to neutral
+  btcPrice?: AssetPrice; // live quote, checked against the last stored close
+}
+
+/**
+ * Check every input the index was computed from
+ * Catches the failures that otherwise produce a plausible-looking but wrong number:
+ * stale or missing series, placeholder fallbacks, bad values and the demo FRED key
+ */
+export function assessDataQuality(
+  inputs: IndexHistoryInputs,
+  context: QualityContext
+): DataQuality {
+  const { asOf, config, directionIndex, btcPrice } = context;
+  const { id: assetId, symbol } = inputs.asset;
+  const closes = inputs.priceHistory.map((p) => ({ date: p.date, value: p.price }));
+
+  const issues: QualityIssue[] = [
+    ...checkSeries("WALCL", inputs.fedData, SERIES_RULES.WALCL, asOf),
+    ...checkSeries("WTREGEN", inputs.tgaData, SERIES_RULES.WTREGEN, asOf),
+    ...checkSeries("RRPONTSYD", inputs.rrpData, SERIES_RULES.RRPONTSYD, asOf),
+    ...checkSeries(assetId, closes, SERIES_RULES.price, asOf),
+  ];
+
+  if (inputs.candles.length === 0) {
+    issues.push({
+      input: `${assetId}-candles`,
+      check: "placeholder",
+      severity: "warning",
+      message: `No ${symbol} candles; the trend is using daily closes instead`,
+    });
+  }
+
+  if (inputs.pmiHistory.length === 0) {
+    issues.push({
+      input: "pmi",
+      check: "placeholder",
+      severity: "error",
+      message: "No PMI data; the index is using a neutral placeholder (50)",
+    });
+  } else {
+    issues.push(...checkSeries("pmi", inputs.pmiHistory, SERIES_RULES.pmi, asOf));
+  }
+
+  if (config.liquidityModel === "global") {
+    for (const id of ["ecb", "boj", "pboc"]) {
+      issues.push(...checkSeries(id, inputs.liquidityComponents[id] ?? [], SERIES_RULES[id], asOf));
+    }
+  }
+
+  for (const [id, series] of Object.entries(inputs.extraFactors)) {
+    issues.push(...checkSeries(id, series, EXTRA_FACTOR_RULE, asOf));
+  }
+
+  for (const factor of directionIndex?.factors ?? []) {
+    if (factor.weight > 0 && !factor.available) {
+      issues.push({
+        input: factor.id,
+        check: "missing",
+        severity: "error",
+        message: `${factor.label} had no data and counted as neutral`,
+      });
+    }
+  }
+
+  if (btcPrice) {
+    if (btcPrice.change24h === undefined) {
+      issues.push({
+        input: assetId,
+        check: "placeholder",
+        severity: "warning",
+        message: `No exchange reported a 24h open for ${symbol}; the 24h change is missing`,
+      });
+    }
+    const lastClose = inputs.priceHistory[inputs.priceHistory.length - 1];
+    if (lastClose && Math.abs(btcPrice.price / lastClose.price - 1) > MAX_LIVE_PRICE_DEVIATION) {
+      issues.push({
+        input: assetId,
+        check: "outlier",
+        severity: "error",
+        message: `Live ${symbol} price ${btcPrice.price} is far from the last close ${lastClose.price} (${lastClose.date})`,
+        date: lastClose.date,
+      });
+    }
+  }
+
+  const sampleFactors = ONCHAIN_FACTOR_IDS.filter((id) => (config.weights[id] ?? 0) > 0);
+  if (ONCHAIN_PROVIDER_NAME === "file" && sampleFactors.length > 0) {
+    issues.push({
+      input: "onchain",
+      check: "placeholder",
+      severity: "error",
+      message: `On-chain factors (${sampleFactors.join(", ")}) are scored from sample fixtures, not market data`,
+    });
+  }
+
+  if (USING_DEMO_FRED_KEY) {
+    issues.push({
+      input: "FRED",
+      check: "config",
+      severity: "warning",
+      message: "Using the rate-limited FRED demo key; set FRED_API_KEY",
+    });
+  }
+
+  return {
+    ok: issues.length === 0,
+    degraded: issues.some((issue) => issue.severity === "error"),
+    issues,
+  };
+}
@@ -0,0 +1,106 @@
+import { AssetSpec, DEFAULT_ASSET } from "./assets";
+import { forwardFill } from "./alignment";
+import { shiftDate } from "./publication-lag";
+import { calculateStats, calculateZScore } from "./statistics";
+import { getDerivativesSeries } from "./store";
+import { FREDData, PositioningPoint } from "./types";
+
+// Perpetual funding is paid every 8 hours
+const FUNDING_INTERVALS_PER_YEAR = 3 * 365;
+
+const OPEN_INTEREST_CHANGE_DAYS = 7;
+
+// Open interest and basis older than this aren't carried forward to a funding date
+const MAX_STALE_DAYS = 3;
+
+// Observations of a signal needed before its z-score counts towards `crowding`
+const MIN_COMPONENT_HISTORY = 14;
+
+/**
+ * Z-score of each value against the values up to and including it (so no later data leaks in)
+ * Null for missing values and until a component has MIN_COMPONENT_HISTORY observations
+ */
+function expandingZScores(values: (number | null)[]): (number | null)[] {
+  const seen: number[] = [];
+  return values.map((value) => {
+    if (value === null) return null;
+    seen.push(value);
+    if (seen.length < MIN_COMPONENT_HISTORY) return null;
+    const { mean, stdDev } = calculateStats(seen);
+    return calculateZScore(value, mean, stdDev);
+  });
+}
+
+/**
+ * Join funding, open interest and basis on the funding dates
+ * The three signals aren't in the same unit, so `crowding` is the mean of their z-scores, each
+ * against its own history. Open interest and basis only go back as far as the store has been
+ * syncing them; where one is missing the others are averaged without it
+ */
+export function buildPositioning(
+  funding: FREDData[],
+  openInterest: FREDData[],
+  basis: FREDData[]
+): PositioningPoint[] {
+  const calendar = funding.map((obs) => obs.date);
+  const interest = forwardFill(openInterest, calendar, { maxStaleDays: MAX_STALE_DAYS });
+  const interestBefore = forwardFill(
+    openInterest,
+    calendar.map((date) => shiftDate(date, -OPEN_INTEREST_CHANGE_DAYS)),
+    { maxStaleDays: MAX_STALE_DAYS }
+  );
+  const basisFilled = forwardFill(basis, calendar, { maxStaleDays: MAX_STALE_DAYS });
+
+  const points = funding.map((obs, i) => {
+    const current = interest[i];
+    const before = interestBefore[i];
+    return {
+      date: obs.date,
+      fundingRate: obs.value,
+      annualizedFunding: obs.value * FUNDING_INTERVALS_PER_YEAR * 100,
+      openInterest: current?.value ?? null,
+      openInterestChange:
+        current && before && before.value > 0 ? (current.value / before.value - 1) * 100 : null,
+      basis: basisFilled[i] ? basisFilled[i].value * 100 : null,
+    };
+  });
+
+  const zScores = [
+    expandingZScores(points.map((point) => point.annualizedFunding)),
+    expandingZScores(points.map((point) => point.basis)),
+    expandingZScores(points.map((point) => point.openInterestChange)),
+  ];
+  return points.map((point, i) => {
+    const available = zScores
+      .map((scores) => scores[i])
+      .filter((score): score is number => score !== null);
+    return {
+      ...point,
+      crowding:
+        available.length > 0
+          ? available.reduce((sum, score) => sum + score, 0) / available.length
+          : null,
+    };
+  });
+}
+
+/**
+ * Daily positioning of an asset (BTC by default) from the local store
+ * Funding is required; open interest and basis degrade to missing if they fail to load
+ */
+export async function fetchPositioning(
+  asset: AssetSpec = DEFAULT_ASSET,
+  limit?: number
+): Promise<PositioningPoint[]> {
+  const optional = (label: string) => (error: unknown) => {
+    console.error(`Error fetching ${asset.symbol} ${label}:`, error);
+    return [];
+  };
+
+  const [funding, openInterest, basis] = await Promise.all([
+    getDerivativesSeries("funding", asset, limit),
+    getDerivativesSeries("openInterest", asset, limit).catch(optional("open interest")),
+    getDerivativesSeries("basis", asset, limit).catch(optional("basis")),
+  ]);
+  return buildPositioning(funding, openInterest, basis);
+}
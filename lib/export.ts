@@ -0,0 +1,160 @@
+import {
+  createIndexReplay,
+  IndexHistoryInputs,
+  IndexHistoryOptions,
+  IndexReplayPoint,
+} from "./index-history";
+import { buildLiquidityEntries, liquidityComponents } from "./liquidity";
+import { DEFAULT_INDEX_CONFIG } from "./index-config";
+import { IndexHistoryPoint } from "./types";
+
+export type ExportDataset = "index" | "factors" | "liquidity";
+export type ExportFormat = "json" | "csv";
+
+export type ExportRow = Record<string, string | number | null>;
+
+/**
+ * Flat rows with a fixed column order, ready for a spreadsheet
+ */
+export interface ExportTable {
+  columns: string[];
+  rows: ExportRow[];
+}
+
+const DATASETS: ExportDataset[] = ["index", "factors", "liquidity"];
+const FORMATS: ExportFormat[] = ["json", "csv"];
+
+/**
+ * Read `dataset` and `format` from the query string
+ * Returns null when neither is given; throws with a user-facing message on invalid values
+ */
+export function parseExportOptions(
+  searchParams: URLSearchParams
+): { dataset: ExportDataset; format: ExportFormat } | null {
+  const dataset = searchParams.get("dataset");
+  const format = searchParams.get("format");
+  if (dataset === null && format === null) return null;
+
+  if (dataset !== null && !DATASETS.includes(dataset as ExportDataset)) {
+    throw new Error(`dataset must be one of ${DATASETS.join(", ")}`);
+  }
+  if (format !== null && !FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`format must be one of ${FORMATS.join(", ")}`);
+  }
+  return {
+    dataset: (dataset as ExportDataset | null) ?? "index",
+    format: (format as ExportFormat | null) ?? "json",
+  };
+}
+
+/**
+ * The merged index and BTC price series, one row per price point
+ */
+export function indexExportTable(history: IndexHistoryPoint[]): ExportTable {
+  return {
+    columns: ["date", "timestamp", "price", "index"],
+    rows: history.map((point) => ({
+      date: point.date,
+      timestamp: point.timestamp,
+      price: point.price,
+      index: point.index,
+    })),
+  };
+}
+
+/**
+ * Each factor's score (z-score, or trend score for btcTrend) at every price point
+ * Factors without data on a date are left empty rather than reported as neutral
+ */
+export function factorExportTable(
+  inputs: IndexHistoryInputs,
+  options: IndexHistoryOptions = {}
+): ExportTable {
+  if (inputs.fedData.length === 0) {
+    return { columns: ["date", "timestamp", "price", "index"], rows: [] };
+  }
+
+  const replay = createIndexReplay(inputs, options);
+  const factorIds: string[] = [];
+  const rows: ExportRow[] = [];
+
+  for (const btcPoint of inputs.priceHistory) {
+    let point: IndexReplayPoint | null;
+    try {
+      point = replay(btcPoint);
+    } catch (calcError) {
+      console.warn(`Failed to calculate index for ${btcPoint.date}:`, calcError);
+      continue;
+    }
+    if (!point) continue;
+
+    const row: ExportRow = {
+      date: btcPoint.date,
+      timestamp: btcPoint.timestamp,
+      price: btcPoint.price,
+      index: point.directionIndex.index,
+    };
+    for (const factor of point.directionIndex.factors) {
+      if (!factorIds.includes(factor.id)) factorIds.push(factor.id);
+      row[`${factor.id}_score`] = factor.available ? factor.score : null;
+    }
+    rows.push(row);
+  }
+
+  return {
+    columns: ["date", "timestamp", "price", "index", ...factorIds.map((id) => `${id}_score`)],
+    rows,
+  };
+}
+
+/**
+ * Raw balance sheet components (millions of USD) on each Fed date, with the net liquidity
+ */
+export function liquidityExportTable(
+  inputs: IndexHistoryInputs,
+  options: IndexHistoryOptions = {}
+): ExportTable {
+  const model = (options.config ?? DEFAULT_INDEX_CONFIG).liquidityModel ?? "us";
+  const specs = liquidityComponents(model);
+  const entries = buildLiquidityEntries(
+    inputs.fedData,
+    inputs.tgaData,
+    inputs.rrpData,
+    inputs.liquidityComponents,
+    model
+  );
+
+  return {
+    columns: ["date", "available_from", "net_liquidity", ...specs.map((spec) => spec.id)],
+    rows: entries.map((entry) => {
+      const row: ExportRow = {
+        date: entry.date,
+        available_from: entry.availableFrom,
+        net_liquidity: entry.value,
+      };
+      for (const spec of specs) {
+        // Components are stored signed by their effect on liquidity; export the balance itself
+        const component = entry.components[spec.id];
+        row[spec.id] = component ? spec.sign * component.value : null;
+      }
+      return row;
+    }),
+  };
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize a table as CSV with a header row
+ */
+export function toCSV(table: ExportTable): string {
+  const lines = [
+    table.columns.map(csvCell).join(","),
+    ...table.rows.map((row) => table.columns.map((column) => csvCell(row[column])).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,170 @@
+import { MAX_HISTORY_DAYS } from "../providers";
+import { getAssetDailyHistory } from "../store";
+import { DAY_MS } from "../candles";
+import { clampToUnit } from "../statistics";
+import { Candle, FactorSeries, IndexConfig, TrendMethod } from "../types";
+import { Factor, FactorNormalization } from "./registry";
+
+export const TREND_METHODS: TrendMethod[] = [
+  "sma_crossover",
+  "ema_crossover",
+  "rate_of_change",
+  "ma_distance",
+  "volatility_adjusted",
+];
+
+const DEFAULT_LONG_WINDOW = 200;
+
+/**
+ * Days of candles the trend needs before the first scored date
+ */
+export function trendLookbackDays(config: IndexConfig): number {
+  const { method, mediumWindow, longWindow } = config.trend;
+  return method === "ma_distance" ? longWindow ?? DEFAULT_LONG_WINDOW : mediumWindow;
+}
+
+interface TimedPrice {
+  time: number; // ms at which the price was observed (a candle's close time)
+  price: number;
+}
+
+/**
+ * Candle closes followed by the current price, in chronological order
+ * Without candles the history is treated as daily closes ending at the evaluation time
+ */
+function pricePath(series: FactorSeries): { path: TimedPrice[]; durationMs: number } {
+  const candles: Candle[] = series.candles ?? [];
+  const durationMs = candles[0]?.durationMs ?? DAY_MS;
+  const now =
+    series.timestamp ??
+    (candles.length > 0 ? candles[candles.length - 1].timestamp + durationMs : Date.now());
+
+  const path: TimedPrice[] =
+    candles.length > 0
+      ? candles.map((c) => ({ time: c.timestamp + c.durationMs, price: c.close }))
+      : series.history.map((price, i) => ({
+          time: now - (series.history.length - 1 - i) * DAY_MS,
+          price,
+        }));
+
+  const last = path[path.length - 1];
+  if (!last || last.time < now) {
+    path.push({ time: now, price: series.current });
+  }
+  return { path, durationMs };
+}
+
+function pricesWithin(path: TimedPrice[], windowMs: number): number[] {
+  const start = path[path.length - 1].time - windowMs;
+  return path.filter((p) => p.time > start).map((p) => p.price);
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Last price observed at least `windowMs` before the end of the path (the oldest one if none is)
+ */
+function priceAgo(path: TimedPrice[], windowMs: number): number {
+  const cutoff = path[path.length - 1].time - windowMs;
+  let price = path[0].price;
+  for (const point of path) {
+    if (point.time > cutoff) break;
+    price = point.price;
+  }
+  return price;
+}
+
+/**
+ * Exponential moving average with a span of `windowMs` worth of bars
+ */
+function ema(path: TimedPrice[], windowMs: number, durationMs: number): number {
+  const alpha = 2 / (Math.max(1, windowMs / durationMs) + 1);
+  return path.reduce((avg, p, i) => (i === 0 ? p.price : alpha * p.price + (1 - alpha) * avg), 0);
+}
+
+/**
+ * Relative momentum for the price-based methods (e.g. 0.05 = 5%)
+ */
+function relativeMomentum(
+  method: TrendMethod,
+  path: TimedPrice[],
+  durationMs: number,
+  trendConfig: IndexConfig["trend"]
+): number {
+  const shortMs = trendConfig.shortWindow * DAY_MS;
+  const mediumMs = trendConfig.mediumWindow * DAY_MS;
+  const current = path[path.length - 1].price;
+
+  let value: number;
+  let reference: number;
+  switch (method) {
+    case "ema_crossover":
+      value = ema(path, shortMs, durationMs);
+      reference = ema(path, mediumMs, durationMs);
+      break;
+    case "rate_of_change":
+      value = current;
+      reference = priceAgo(path, mediumMs);
+      break;
+    case "ma_distance":
+      value = current;
+      reference = mean(pricesWithin(path, (trendConfig.longWindow ?? DEFAULT_LONG_WINDOW) * DAY_MS));
+      break;
+    default:
+      value = mean(pricesWithin(path, shortMs));
+      reference = mean(pricesWithin(path, mediumMs));
+  }
+  return reference === 0 ? 0 : (value - reference) / reference;
+}
+
+/**
+ * Log return over the medium window divided by the volatility expected over that window
+ * Comparable to a z-score, so it's clamped with the profile's zScoreClamp
+ */
+function volatilityAdjustedMomentum(path: TimedPrice[], mediumMs: number): number {
+  const prices = pricesWithin(path, mediumMs).filter((p) => p > 0);
+  const start = priceAgo(path, mediumMs);
+  if (prices.length < 3 || start <= 0) return 0;
+
+  const returns = prices.slice(1).map((p, i) => Math.log(p / prices[i]));
+  const avg = mean(returns);
+  const stdDev = Math.sqrt(mean(returns.map((r) => (r - avg) ** 2)));
+  if (stdDev === 0) return 0;
+  return Math.log(prices[prices.length - 1] / start) / (stdDev * Math.sqrt(returns.length));
+}
+
+/**
+ * Score the asset's momentum with the profile's trend method
+ * Windows are in days and measured in time, so intraday candles cover the same span as daily ones
+ */
+function calculateTrend(series: FactorSeries, config: IndexConfig): FactorNormalization {
+  const { path, durationMs } = pricePath(series);
+  if (path.length < 2) return { score: 0, normalized: 0 };
+
+  const method = config.trend.method ?? "sma_crossover";
+  if (method === "volatility_adjusted") {
+    const score = volatilityAdjustedMomentum(path, config.trend.mediumWindow * DAY_MS);
+    return { score, normalized: clampToUnit(score, config.zScoreClamp) };
+  }
+
+  const momentum = relativeMomentum(method, path, durationMs, config.trend);
+  const trend = Math.max(-1, Math.min(1, momentum * config.trend.scale)); // Scale and clamp
+  return { score: trend, normalized: trend };
+}
+
+export const btcTrendFactor: Factor = {
+  id: "btcTrend",
+  // The id predates multi-asset support; the trend is of whichever asset is being scored
+  label: "Price Trend",
+  description: "Price momentum of the asset, measured with the profile's trend method",
+
+  async fetchSeries({ limit }) {
+    const prices = await getAssetDailyHistory(limit ?? MAX_HISTORY_DAYS);
+    return prices.map((p) => ({ date: p.date, value: p.price }));
+  },
+
+  normalize: calculateTrend,
+
+  describe: ({ score }) =>
+    score === 0 ? "No momentum" : `${score > 0 ? "Upward" : "Downward"} momentum`,
+};
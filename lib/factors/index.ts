@@ -0,0 +1,58 @@
+import { registerFactor } from "./registry";
+import { liquidityFactor } from "./liquidity";
+import { pmiFactor } from "./pmi";
+import { btcTrendFactor } from "./btc-trend";
+import { createFREDZScoreFactor } from "./z-score";
+import { ONCHAIN_FACTORS } from "./onchain";
+import { positioningFactor } from "./positioning";
+
+export * from "./registry";
+export { TREND_METHODS, trendLookbackDays } from "./btc-trend";
+export { ONCHAIN_FACTOR_IDS } from "./onchain";
+export { toCrowdingSeries } from "./positioning";
+
+// Factors the routes build inputs for themselves (from data they already fetch)
+export const CORE_FACTOR_IDS = ["liquidity", "pmi", "btcTrend"];
+
+// Core factors used by the default profile
+registerFactor(liquidityFactor);
+registerFactor(pmiFactor);
+registerFactor(btcTrendFactor);
+
+// Optional macro factors; give them a weight in a profile to include them
+registerFactor(
+  createFREDZScoreFactor({
+    id: "dxy",
+    label: "US Dollar (Broad)",
+    description: "Trade-weighted dollar index; a stronger dollar is bearish",
+    seriesId: "DTWEXBGS",
+    direction: -1,
+    publicationLagDays: 1,
+  })
+);
+registerFactor(
+  createFREDZScoreFactor({
+    id: "realYield10y",
+    label: "10Y Real Yield",
+    description: "10-year TIPS yield; higher real yields are bearish",
+    seriesId: "DFII10",
+    direction: -1,
+    publicationLagDays: 1,
+  })
+);
+registerFactor(
+  createFREDZScoreFactor({
+    id: "m2",
+    label: "M2 Money Supply",
+    description: "US M2; faster money growth is bullish",
+    seriesId: "M2SL",
+    direction: 1,
+    publicationLagDays: 55, // monthly, released late in the following month
+  })
+);
+
+// Contrarian derivatives positioning (see lib/derivatives.ts)
+registerFactor(positioningFactor);
+
+// On-chain factor pack (BTC network data, see lib/providers/onchain.ts)
+ONCHAIN_FACTORS.forEach(registerFactor);
@@ -0,0 +1,30 @@
+import { buildLiquidityEntries, fetchUSLiquiditySeries } from "../liquidity";
+import { getAvailabilityDate } from "../publication-lag";
+import { Factor } from "./registry";
+import { describeZScore, normalizeZScore } from "./z-score";
+
+export const liquidityFactor: Factor = {
+  id: "liquidity",
+  label: "Net Liquidity",
+  // The global model (see lib/liquidity.ts) is selected per profile and built by the history replay
+  description: "Fed balance sheet minus TGA minus RRP (plus ECB, BoJ and PBoC in the global model), z-scored against its history",
+
+  async fetchSeries({ limit }) {
+    const { fedData, tgaData, rrpData } = await fetchUSLiquiditySeries(limit);
+    return buildLiquidityEntries(fedData, tgaData, rrpData).map(({ date, value }) => ({
+      date,
+      value,
+    }));
+  },
+
+  // The reading is only complete once all three components are published
+  availableFrom: (date) =>
+    [
+      getAvailabilityDate("WALCL", date),
+      getAvailabilityDate("WTREGEN", date),
+      getAvailabilityDate("RRPONTSYD", date),
+    ].sort()[2],
+
+  normalize: (series, config) => normalizeZScore(series, config.zScoreClamp),
+  describe: describeZScore,
+};
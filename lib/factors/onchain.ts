@@ -0,0 +1,117 @@
+import { getOnChainSeries } from "../store";
+import { shiftDate } from "../publication-lag";
+import { daysBetween } from "../alignment";
+import { FREDData } from "../types";
+import type { OnChainMetric } from "../providers";
+import { Factor } from "./registry";
+import { describeZScore, normalizeZScore } from "./z-score";
+
+interface OnChainFactorOptions {
+  id: string;
+  label: string;
+  description: string;
+  metric: OnChainMetric;
+  direction: 1 | -1;
+  // Turns the raw metric into the value that gets z-scored (the raw metric when omitted)
+  transform?: (observations: FREDData[]) => FREDData[];
+}
+
+/**
+ * Factor backed by a daily on-chain metric, z-scored against its own history
+ * Daily metrics are published once the day is over, so each observation is known the next day
+ */
+export function createOnChainFactor(options: OnChainFactorOptions): Factor {
+  return {
+    id: options.id,
+    label: options.label,
+    description: options.description,
+    async fetchSeries({ limit }) {
+      const observations = await getOnChainSeries(options.metric);
+      const values = options.transform ? options.transform(observations) : observations;
+      return limit === undefined ? values : values.slice(-limit);
+    },
+    availableFrom: (date) => shiftDate(date, 1),
+    normalize: (series, config) =>
+      normalizeZScore(series, config.zScoreClamp, undefined, options.direction),
+    describe: describeZScore,
+  };
+}
+
+/**
+ * Percentage change of each observation from the last one at least `days` earlier
+ */
+export function changeOver(days: number) {
+  return (observations: FREDData[]): FREDData[] => {
+    const changes: FREDData[] = [];
+    let base = 0;
+    for (const obs of observations) {
+      // Advance to the latest observation still at least `days` old
+      while (
+        base + 1 < observations.length &&
+        daysBetween(observations[base + 1].date, obs.date) >= days
+      ) {
+        base++;
+      }
+      const reference = observations[base];
+      if (daysBetween(reference.date, obs.date) < days || reference.value === 0) continue;
+      changes.push({ date: obs.date, value: (obs.value / reference.value - 1) * 100 });
+    }
+    return changes;
+  };
+}
+
+/**
+ * Trailing sum over the last `days` days, to smooth out noisy daily flows
+ */
+export function sumOver(days: number) {
+  return (observations: FREDData[]): FREDData[] =>
+    observations.map((obs, i) => {
+      let value = 0;
+      for (let j = i; j >= 0 && daysBetween(observations[j].date, obs.date) < days; j--) {
+        value += observations[j].value;
+      }
+      return { date: obs.date, value };
+    });
+}
+
+export const ONCHAIN_FACTORS: Factor[] = [
+  createOnChainFactor({
+    id: "mvrvZScore",
+    label: "MVRV Z-Score",
+    description: "Market value vs realized value; high readings have marked cycle tops",
+    metric: "mvrvZScore",
+    direction: -1,
+  }),
+  createOnChainFactor({
+    id: "exchangeNetFlow",
+    label: "Exchange Net Flow (7d)",
+    description: "BTC moved onto exchanges minus BTC moved off; inflows are bearish",
+    metric: "exchangeNetFlow",
+    direction: -1,
+    transform: sumOver(7),
+  }),
+  createOnChainFactor({
+    id: "activeAddresses",
+    label: "Active Addresses",
+    description: "Daily active addresses; growing network use is bullish",
+    metric: "activeAddresses",
+    direction: 1,
+  }),
+  createOnChainFactor({
+    id: "hashRateTrend",
+    label: "Hash Rate Trend",
+    description: "30-day change in the mean hash rate; miner capitulation is bearish",
+    metric: "hashRate",
+    direction: 1,
+    transform: changeOver(30),
+  }),
+  createOnChainFactor({
+    id: "sopr",
+    label: "SOPR",
+    description: "Spent output profit ratio; heavy profit-taking is bearish",
+    metric: "sopr",
+    direction: -1,
+  }),
+];
+
+export const ONCHAIN_FACTOR_IDS = ONCHAIN_FACTORS.map((factor) => factor.id);
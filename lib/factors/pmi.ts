@@ -0,0 +1,20 @@
+import { getPMIHistory } from "../pmi";
+import { getAvailabilityDate } from "../publication-lag";
+import { Factor } from "./registry";
+import { normalizeZScore } from "./z-score";
+
+export const pmiFactor: Factor = {
+  id: "pmi",
+  label: "ISM PMI",
+  description: "Manufacturing PMI centered on the expansion/contraction line, z-scored",
+  async fetchSeries({ limit }) {
+    const history = await getPMIHistory(limit);
+    return history.map(({ date, value }) => ({ date, value }));
+  },
+  availableFrom: (date) => getAvailabilityDate("NAPM", date),
+  // PMI above the neutral line (50) is expansion, below it contraction; the history sets the scale
+  normalize: (series, config) =>
+    normalizeZScore(series, config.zScoreClamp, config.pmiNeutral),
+  describe: ({ score }) =>
+    `${Math.abs(score).toFixed(2)}σ ${score >= 0 ? "above" : "below"} the neutral line`,
+};
@@ -0,0 +1,37 @@
+import { fetchPositioning } from "../derivatives";
+import { shiftDate } from "../publication-lag";
+import { clampToUnit } from "../statistics";
+import { FREDData, PositioningPoint } from "../types";
+import { Factor } from "./registry";
+
+/**
+ * Crowding readings of the days it could be computed on
+ */
+export function toCrowdingSeries(points: PositioningPoint[]): FREDData[] {
+  return points.flatMap((point) =>
+    point.crowding === null ? [] : [{ date: point.date, value: point.crowding }]
+  );
+}
+
+export const positioningFactor: Factor = {
+  id: "positioning",
+  label: "Derivatives Positioning",
+  description:
+    "Perpetual funding, quarterly basis and open interest growth; crowded leverage is bearish (contrarian)",
+
+  async fetchSeries({ limit, asset }) {
+    return toCrowdingSeries(await fetchPositioning(asset, limit));
+  },
+
+  // A day's mean funding is only complete once the day is over
+  availableFrom: (date) => shiftDate(date, 1),
+
+  // Crowding is already a z-score; crowded longs are bearish
+  normalize: (series, config) => ({
+    score: series.current,
+    normalized: -clampToUnit(series.current, config.zScoreClamp),
+  }),
+
+  describe: ({ score }) =>
+    `Leverage ${Math.abs(score).toFixed(2)}σ ${score >= 0 ? "more" : "less"} crowded long than usual`,
+};
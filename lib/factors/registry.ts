@@ -0,0 +1,88 @@
+import { AssetSpec } from "../assets";
+import { FREDData, FactorSeries, IndexConfig } from "../types";
+
+export interface FactorFetchOptions {
+  limit?: number; // number of most recent observations; all available history when omitted
+  asset?: AssetSpec; // asset the index is computed for; factors of the BTC network ignore it
+}
+
+export interface FactorNormalization {
+  score: number; // z-score (or equivalent) before clamping
+  normalized: number; // -1 to 1, bullish positive
+}
+
+/**
+ * A single input to the Direction Index
+ * Weights are not part of the factor: they come from the IndexConfig profile,
+ * keyed by factor id, so the same factor can be weighted differently per profile
+ */
+export interface Factor {
+  id: string;
+  label: string;
+  description: string;
+  // Dated observations in chronological order
+  fetchSeries(options: FactorFetchOptions): Promise<FREDData[]>;
+  // Date from which an observation was publicly known (defaults to its own date)
+  availableFrom?(observationDate: string): string;
+  normalize(series: FactorSeries, config: IndexConfig): FactorNormalization;
+  // Short human-readable reading, e.g. "Liquidity 1.2σ above its average"
+  describe(reading: FactorNormalization): string;
+}
+
+const registry = new Map<string, Factor>();
+
+/**
+ * Add a factor to the registry
+ * Throws if another factor already uses the same id
+ */
+export function registerFactor(factor: Factor): void {
+  if (registry.has(factor.id)) {
+    throw new Error(`Factor already registered: ${factor.id}`);
+  }
+  registry.set(factor.id, factor);
+}
+
+export function getFactor(id: string): Factor | undefined {
+  return registry.get(id);
+}
+
+export function listFactors(): Factor[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Ids of the profile's weighted factors, excluding the ones the caller already supplies
+ */
+export function weightedFactorIds(config: IndexConfig, exclude: string[] = []): string[] {
+  return Object.entries(config.weights)
+    .filter(([id, weight]) => weight > 0 && !exclude.includes(id))
+    .map(([id]) => id);
+}
+
+/**
+ * Build a factor's input as of a date from its dated observations
+ * Only observations already published on `asOf` are used; `windowStart` limits
+ * the normalization history to a rolling window
+ */
+export function toFactorSeries(
+  factor: Factor,
+  observations: FREDData[],
+  asOf?: string,
+  windowStart?: string
+): FactorSeries | undefined {
+  const known = observations.filter((obs) => {
+    if (windowStart && obs.date < windowStart) return false;
+    if (!asOf) return true;
+    const availableFrom = factor.availableFrom?.(obs.date) ?? obs.date;
+    return obs.date <= asOf && availableFrom <= asOf;
+  });
+
+  const latest = known[known.length - 1];
+  if (!latest) return undefined;
+
+  return {
+    current: latest.value,
+    history: known.map((obs) => obs.value),
+    date: latest.date,
+  };
+}
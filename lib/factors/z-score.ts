@@ -0,0 +1,52 @@
+import { calculateStats, calculateZScore, clampToUnit } from "../statistics";
+import { getFREDSeries } from "../store";
+import { shiftDate } from "../publication-lag";
+import { FactorSeries } from "../types";
+import { Factor, FactorNormalization } from "./registry";
+
+/**
+ * Z-score the current value against its history and scale it into -1 to 1
+ * With a `center` (e.g. PMI 50) the deviation from that level is scored against the history's
+ * spread instead of the deviation from the history's mean
+ * `direction` flips factors where a higher reading is bearish (e.g. a stronger dollar)
+ */
+export function normalizeZScore(
+  series: FactorSeries,
+  clamp: number,
+  center?: number,
+  direction: 1 | -1 = 1
+): FactorNormalization {
+  const stats = calculateStats(series.history);
+  const score = calculateZScore(series.current, center ?? stats.mean, stats.stdDev);
+  return { score, normalized: direction * clampToUnit(score, clamp) };
+}
+
+export function describeZScore({ score }: FactorNormalization): string {
+  return `${Math.abs(score).toFixed(2)}σ ${score >= 0 ? "above" : "below"} its average`;
+}
+
+interface FREDZScoreFactorOptions {
+  id: string;
+  label: string;
+  description: string;
+  seriesId: string;
+  direction: 1 | -1;
+  publicationLagDays?: number;
+}
+
+/**
+ * Factor backed by a single FRED series, z-scored against its own history
+ */
+export function createFREDZScoreFactor(options: FREDZScoreFactorOptions): Factor {
+  const lag = options.publicationLagDays ?? 0;
+  return {
+    id: options.id,
+    label: options.label,
+    description: options.description,
+    fetchSeries: ({ limit }) => getFREDSeries(options.seriesId, limit),
+    availableFrom: (date) => shiftDate(date, lag),
+    normalize: (series, config) =>
+      normalizeZScore(series, config.zScoreClamp, undefined, options.direction),
+    describe: describeZScore,
+  };
+}
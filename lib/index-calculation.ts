@@ -1,58 +1,90 @@
-import { BitcoinDirectionIndex, LiquidityData, ISMPMIData, BitcoinPrice } from './types';
+import {
+  BitcoinDirectionIndex,
+  LiquidityData,
+  ISMPMIData,
+  BitcoinPrice,
+  Candle,
+  IndexConfig,
+  FactorReading,
+  FactorSeries,
+} from './types';
+import { DEFAULT_INDEX_CONFIG } from './index-config';
+import { getFactor } from './factors';
 
 /**
- * Calculate z-score normalization
+ * Factor inputs keyed by factor id
  */
-function calculateZScore(value: number, mean: number, stdDev: number): number {
-  if (stdDev === 0) return 0;
-  return (value - mean) / stdDev;
-}
+export type FactorInputs = Record<string, FactorSeries>;
 
 /**
- * Calculate mean and standard deviation from an array of numbers
+ * Map a 0-100 index value onto its interpretation band
  */
-function calculateStats(values: number[]): { mean: number; stdDev: number } {
-  if (values.length === 0) {
-    return { mean: 0, stdDev: 1 }; // Default to avoid division by zero
-  }
-  
-  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-  const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-  const stdDev = Math.sqrt(variance);
-  
-  // If stdDev is 0 (all values are the same), use a small value to avoid division by zero
-  // This happens when historical data is insufficient or all the same
-  return { mean, stdDev: stdDev || 1 };
+export function interpretIndex(
+  index: number,
+  bands: IndexConfig['bands'] = DEFAULT_INDEX_CONFIG.bands
+): BitcoinDirectionIndex['interpretation'] {
+  if (index < bands.bearish) return 'very_bearish';
+  if (index < bands.neutral) return 'bearish';
+  if (index < bands.bullish) return 'neutral';
+  if (index < bands.veryBullish) return 'bullish';
+  return 'very_bullish';
 }
 
 /**
- * Calculate Bitcoin trend score based on price momentum
- * Returns a value between -1 and 1
+ * Calculate the Direction Index from any set of registered factors
+ * Every factor weighted in the config is normalized to -1..1 and combined;
+ * a weighted factor without input counts as neutral and is flagged unavailable
  */
-function calculateBTCTrend(
-  currentPrice: number,
-  historicalPrices: number[]
-): number {
-  if (historicalPrices.length < 2) return 0;
-
-  // Calculate short-term (last 7 days) vs medium-term (last 30 days) average
-  const shortTerm = historicalPrices.slice(-7);
-  const mediumTerm = historicalPrices.slice(-30);
+export function calculateDirectionIndex(
+  inputs: FactorInputs,
+  config: IndexConfig = DEFAULT_INDEX_CONFIG
+): BitcoinDirectionIndex {
+  const factors: FactorReading[] = [];
+
+  for (const [id, weight] of Object.entries(config.weights)) {
+    const factor = getFactor(id);
+    if (!factor) {
+      throw new Error(`Unknown factor in profile "${config.name}": ${id}`);
+    }
+
+    const series = inputs[id];
+    const reading = series
+      ? factor.normalize(series, config)
+      : { score: 0, normalized: 0 };
+
+    factors.push({
+      id,
+      label: factor.label,
+      value: series?.current ?? 0,
+      score: reading.score,
+      normalized: reading.normalized,
+      weight,
+      contribution: weight * reading.normalized,
+      available: series !== undefined,
+      description: series ? factor.describe(reading) : 'No data',
+    });
+  }
 
-  if (shortTerm.length === 0 || mediumTerm.length === 0) return 0;
+  // Calculate weighted index (range: -1 to 1)
+  const rawIndex = factors.reduce((sum, f) => sum + f.contribution, 0);
 
-  const shortTermAvg = shortTerm.reduce((sum, p) => sum + p, 0) / shortTerm.length;
-  const mediumTermAvg = mediumTerm.reduce((sum, p) => sum + p, 0) / mediumTerm.length;
+  // Convert to 0-100 scale (0 = very bearish, 100 = very bullish)
+  const index = ((rawIndex + 1) / 2) * 100;
 
-  // Normalize trend to -1 to 1 range
-  if (mediumTermAvg === 0) return 0;
-  const trend = (shortTermAvg - mediumTermAvg) / mediumTermAvg;
-  return Math.max(-1, Math.min(1, trend * 10)); // Scale and clamp
+  return {
+    index: Math.round(index * 100) / 100, // Round to 2 decimals
+    factors,
+    timestamp: Date.now(),
+    interpretation: interpretIndex(index, config.bands),
+    profile: config.name,
+  };
 }
 
 /**
  * Calculate the Bitcoin Direction Index
- * Combines liquidity, PMI, and BTC trend into a 0-100 index
+ * Convenience wrapper for the three core factors (liquidity, PMI, price trend);
+ * `candles` are the asset's bars closed by the time of `btcPrice`, which stands in for the latest price;
+ * inputs for any additional factors in the profile can be passed in `extraInputs`
  */
 export function calculateBitcoinDirectionIndex(
   liquidity: LiquidityData,
@@ -60,71 +92,26 @@ export function calculateBitcoinDirectionIndex(
   pmi: ISMPMIData,
   pmiHistory: number[],
   btcPrice: BitcoinPrice,
-  btcPriceHistory: number[]
+  candles: Candle[],
+  config: IndexConfig = DEFAULT_INDEX_CONFIG,
+  extraInputs: FactorInputs = {}
 ): BitcoinDirectionIndex {
-  // Calculate z-scores for liquidity
-  const liquidityStats = calculateStats(liquidityHistory);
-  const liquidityZScore = calculateZScore(
-    liquidity.liquidity,
-    liquidityStats.mean,
-    liquidityStats.stdDev
+  const directionIndex = calculateDirectionIndex(
+    {
+      ...extraInputs,
+      liquidity: { current: liquidity.liquidity, history: liquidityHistory, date: liquidity.date },
+      pmi: { current: pmi.value, history: pmiHistory, date: pmi.date },
+      btcTrend: {
+        current: btcPrice.price,
+        history: candles.map((c) => c.close),
+        candles,
+        timestamp: btcPrice.timestamp,
+      },
+    },
+    config
   );
-
-  // Calculate z-score for PMI
-  // PMI above 50 is expansion, below 50 is contraction
-  // We normalize around 50
-  const pmiNormalized = pmi.value - 50; // Center around 0
-  const pmiStats = calculateStats(pmiHistory.map(p => p - 50));
-  const pmiZScore = calculateZScore(pmiNormalized, pmiStats.mean, pmiStats.stdDev);
-
-  // Calculate BTC trend
-  const btcTrend = calculateBTCTrend(btcPrice.price, btcPriceHistory);
-
-  // Weighted combination
-  // Liquidity: 40% weight (most important per video)
-  // PMI: 35% weight (business cycle indicator)
-  // BTC Trend: 25% weight (momentum)
-  const weights = {
-    liquidity: 0.4,
-    pmi: 0.35,
-    btcTrend: 0.25,
-  };
-
-  // Normalize z-scores to -1 to 1 range (clamp extreme values)
-  const normalizedLiquidity = Math.max(-2, Math.min(2, liquidityZScore)) / 2;
-  const normalizedPMI = Math.max(-2, Math.min(2, pmiZScore)) / 2;
-
-  // Calculate weighted index (range: -1 to 1)
-  const rawIndex =
-    weights.liquidity * normalizedLiquidity +
-    weights.pmi * normalizedPMI +
-    weights.btcTrend * btcTrend;
-
-  // Convert to 0-100 scale (0 = very bearish, 100 = very bullish)
-  const index = ((rawIndex + 1) / 2) * 100;
-
-  // Determine interpretation
-  let interpretation: BitcoinDirectionIndex['interpretation'];
-  if (index < 20) {
-    interpretation = 'very_bearish';
-  } else if (index < 40) {
-    interpretation = 'bearish';
-  } else if (index < 60) {
-    interpretation = 'neutral';
-  } else if (index < 80) {
-    interpretation = 'bullish';
-  } else {
-    interpretation = 'very_bullish';
-  }
-
-  return {
-    index: Math.round(index * 100) / 100, // Round to 2 decimals
-    liquidityZScore,
-    pmiZScore,
-    btcTrend,
-    timestamp: Date.now(),
-    interpretation,
-  };
+  // The trend factor scored this asset's prices
+  return btcPrice.asset ? { ...directionIndex, asset: btcPrice.asset } : directionIndex;
 }
 
 /**
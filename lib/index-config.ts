@@ -0,0 +1,143 @@
+import { IndexConfig } from './types';
+import { getFactor, TREND_METHODS } from './factors';
+
+/**
+ * The original index formula
+ */
+export const DEFAULT_INDEX_CONFIG: IndexConfig = {
+  name: 'default',
+  description: 'Liquidity 40%, PMI 35%, BTC trend 25%',
+  weights: {
+    liquidity: 0.4, // most important per video
+    pmi: 0.35, // business cycle indicator
+    btcTrend: 0.25, // momentum
+  },
+  zScoreClamp: 2,
+  pmiNeutral: 50,
+  trend: {
+    shortWindow: 7,
+    mediumWindow: 30,
+    scale: 10,
+  },
+  bands: {
+    bearish: 20,
+    neutral: 40,
+    bullish: 60,
+    veryBullish: 80,
+  },
+};
+
+/**
+ * Profiles that ship with the app; saved profiles are layered on top (see index-profiles.ts)
+ */
+export const BUILT_IN_PROFILES: IndexConfig[] = [
+  DEFAULT_INDEX_CONFIG,
+  {
+    ...DEFAULT_INDEX_CONFIG,
+    name: 'macro-only',
+    description: 'Liquidity and PMI only, no price momentum',
+    weights: { liquidity: 0.55, pmi: 0.45, btcTrend: 0 },
+  },
+  {
+    ...DEFAULT_INDEX_CONFIG,
+    name: 'momentum',
+    description: 'Heavier trend weight with a faster 5/20 window',
+    weights: { liquidity: 0.3, pmi: 0.2, btcTrend: 0.5 },
+    trend: { shortWindow: 5, mediumWindow: 20, scale: 10 },
+  },
+  {
+    ...DEFAULT_INDEX_CONFIG,
+    name: 'global-liquidity',
+    description: 'Default weights with ECB, BoJ and PBoC balance sheets added to liquidity',
+    liquidityModel: 'global',
+  },
+  {
+    ...DEFAULT_INDEX_CONFIG,
+    name: 'onchain',
+    description: 'Macro and trend plus the on-chain factor pack for cycle structure',
+    weights: {
+      liquidity: 0.3,
+      pmi: 0.2,
+      btcTrend: 0.15,
+      mvrvZScore: 0.1,
+      exchangeNetFlow: 0.08,
+      activeAddresses: 0.05,
+      hashRateTrend: 0.05,
+      sopr: 0.07,
+    },
+  },
+];
+
+const WEIGHT_TOLERANCE = 1e-6;
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Validate a config profile
+ * Returns a list of problems; an empty list means the config is usable
+ */
+export function validateIndexConfig(config: IndexConfig): string[] {
+  const errors: string[] = [];
+
+  if (!config.name || !/^[a-z0-9][a-z0-9_-]*$/.test(config.name)) {
+    errors.push('name must be lowercase letters, digits, "-" or "_"');
+  }
+
+  const weights = Object.entries(config.weights ?? {});
+  const unknown = weights.filter(([id]) => !getFactor(id)).map(([id]) => id);
+  if (unknown.length > 0) {
+    errors.push(`unknown factors: ${unknown.join(', ')}`);
+  }
+  if (weights.some(([, w]) => typeof w !== 'number' || !isFinite(w) || w < 0)) {
+    errors.push('weights must be non-negative numbers');
+  } else {
+    const total = weights.reduce((sum, [, w]) => sum + w, 0);
+    if (Math.abs(total - 1) > WEIGHT_TOLERANCE) {
+      errors.push(`weights must sum to 1 (got ${total})`);
+    }
+  }
+
+  if (!isPositive(config.zScoreClamp)) {
+    errors.push('zScoreClamp must be a positive number');
+  }
+
+  if (typeof config.pmiNeutral !== 'number' || !isFinite(config.pmiNeutral)) {
+    errors.push('pmiNeutral must be a number');
+  }
+
+  if (config.liquidityModel !== undefined && !['us', 'global'].includes(config.liquidityModel)) {
+    errors.push('liquidityModel must be "us" or "global"');
+  }
+
+  const trend = config.trend ?? {};
+  if (trend.method !== undefined && !TREND_METHODS.includes(trend.method)) {
+    errors.push(`trend.method must be one of ${TREND_METHODS.join(', ')}`);
+  }
+  if (!Number.isInteger(trend.shortWindow) || trend.shortWindow < 1) {
+    errors.push('trend.shortWindow must be a positive whole number of days');
+  }
+  if (!Number.isInteger(trend.mediumWindow) || trend.mediumWindow <= trend.shortWindow) {
+    errors.push('trend.mediumWindow must be a whole number of days greater than trend.shortWindow');
+  }
+  if (
+    trend.longWindow !== undefined &&
+    (!Number.isInteger(trend.longWindow) || trend.longWindow <= trend.mediumWindow)
+  ) {
+    errors.push('trend.longWindow must be a whole number of days greater than trend.mediumWindow');
+  }
+  if (!isPositive(trend.scale)) {
+    errors.push('trend.scale must be a positive number');
+  }
+
+  const bands = config.bands ?? {};
+  const levels = [0, bands.bearish, bands.neutral, bands.bullish, bands.veryBullish, 100];
+  if (levels.some((l) => typeof l !== 'number' || !isFinite(l))) {
+    errors.push('bands must be numbers');
+  } else if (levels.some((l, i) => i > 0 && l < levels[i - 1])) {
+    errors.push('bands must be ascending between 0 and 100');
+  }
+
+  return errors;
+}
@@ -0,0 +1,519 @@
+import { calculateBitcoinDirectionIndex, FactorInputs } from "./index-calculation";
+import { AssetSpec, DEFAULT_ASSET, getAsset } from "./assets";
+import { fetchAssetPriceHistory, MAX_HISTORY_DAYS } from "./providers";
+import { getAssetDailyCandles, getAssetDailyHistory } from "./store";
+import { candlesFromPrices, candlesWithin, DAY_MS } from "./candles";
+import { getPMIHistory } from "./pmi";
+import {
+  CORE_FACTOR_IDS,
+  getFactor,
+  toFactorSeries,
+  trendLookbackDays,
+  weightedFactorIds,
+} from "./factors";
+import { DEFAULT_INDEX_CONFIG } from "./index-config";
+import { getIndexProfile } from "./index-profiles";
+import { getAvailabilityDate, shiftDate } from "./publication-lag";
+import { daysBetween } from "./alignment";
+import {
+  buildLiquidityEntries,
+  fetchLiquidityComponents,
+  fetchUSLiquiditySeries,
+  LiquidityEntry,
+  toLiquidityData,
+} from "./liquidity";
+import {
+  fetchUSLiquidityVintages,
+  liquidityEntriesAsKnownOn,
+  USLiquidityVintages,
+} from "./vintages";
+import {
+  FREDData,
+  ISMPMIData,
+  AssetPrice,
+  BitcoinDirectionIndex,
+  Candle,
+  IndexConsistency,
+  InputStaleness,
+  PMIObservation,
+  PricePoint,
+  IndexHistoryPoint,
+  IndexConfig,
+} from "./types";
+
+export type Timespan = "1D" | "7D" | "30D" | "90D" | "1Y" | "ALL";
+
+export const TIMESPANS: Timespan[] = ["1D", "7D", "30D", "90D", "1Y", "ALL"];
+
+/**
+ * Read a `timespan` query param, `fallback` when it is missing
+ * Throws with a user-facing message for any value outside TIMESPANS
+ */
+export function parseTimespan(value: string | null, fallback: Timespan): Timespan {
+  if (!value) return fallback;
+  if (!(TIMESPANS as string[]).includes(value)) {
+    throw new Error(`timespan must be one of ${TIMESPANS.join(", ")}`);
+  }
+  return value as Timespan;
+}
+
+export function getDaysFromTimespan(timespan: Timespan): number {
+  switch (timespan) {
+    case "1D":
+      return 1;
+    case "7D":
+      return 7;
+    case "30D":
+      return 30;
+    case "90D":
+      return 90;
+    case "1Y":
+      return 365;
+    case "ALL":
+      return MAX_HISTORY_DAYS;
+    default:
+      return 365;
+  }
+}
+
+/**
+ * Raw series needed to replay the index over a time window
+ */
+export interface IndexHistoryInputs {
+  // Fed balance sheet, TGA and RRP in millions of USD
+  fedData: FREDData[];
+  tgaData: FREDData[];
+  rrpData: FREDData[];
+  // Asset being scored and its prices (daily closes, or intraday points for short windows)
+  asset: AssetSpec;
+  priceHistory: PricePoint[];
+  // Daily OHLCV candles for the trend, starting early enough to cover its lookback;
+  // empty when the exchange has none (the trend then falls back to priceHistory)
+  candles: Candle[];
+  pmiHistory: PMIObservation[];
+  // Non-US liquidity components in millions of USD (global liquidity model only), keyed by component id
+  liquidityComponents: Record<string, FREDData[]>;
+  // Observations for any additional factors weighted in the profile, keyed by factor id
+  extraFactors: Record<string, FREDData[]>;
+  // ALFRED vintages of the US liquidity components ("vintage" mode only)
+  liquidityVintages?: USLiquidityVintages;
+}
+
+
+/**
+ * Fetch every series the index needs for the given number of days
+ * Additional factors are only fetched when the profile gives them a weight, and liquidity
+ * vintages only for a "vintage" replay
+ */
+export async function fetchIndexHistoryInputs(
+  days: number,
+  config: IndexConfig = DEFAULT_INDEX_CONFIG,
+  asset: AssetSpec = DEFAULT_ASSET,
+  mode: HistoryMode = "point-in-time"
+): Promise<IndexHistoryInputs> {
+  const extraFactorIds = weightedFactorIds(config, CORE_FACTOR_IDS);
+
+  // Optional inputs degrade to an empty series; liquidity and price failures propagate
+  const optional = (label: string) => (error: unknown) => {
+    console.error(`Error fetching ${label}:`, error);
+    return [];
+  };
+
+  // The store keeps full history, so "ALL" is no longer truncated to FRED's page size
+  const limit = days >= MAX_HISTORY_DAYS ? undefined : days;
+
+  // The other liquidity series are fetched over the dates of the Fed readings
+  const usLiquidity = fetchUSLiquiditySeries(limit);
+  const liquiditySince = usLiquidity.then(({ fedData }) =>
+    limit === undefined ? undefined : fedData[0]?.date
+  );
+
+  const [
+    { fedData, tgaData, rrpData },
+    priceHistory,
+    candles,
+    pmiHistory,
+    liquidityComponents,
+    liquidityVintages,
+    ...extraSeries
+  ] = await Promise.all([
+      usLiquidity,
+      // Intraday windows come straight from CoinGecko; daily closes from the store
+      days <= 90 ? fetchAssetPriceHistory(days, asset) : getAssetDailyHistory(days, asset),
+      getAssetDailyCandles(days + trendLookbackDays(config) + 1, asset).catch(
+        optional(`${asset.symbol} candles`)
+      ),
+      // PMI is monthly, so we need less data points
+      getPMIHistory(limit === undefined ? undefined : Math.min(limit, 365 * 2)).catch(
+        optional("PMI history")
+      ),
+      liquiditySince.then((since) => fetchLiquidityComponents(config.liquidityModel, since)),
+      mode === "vintage" ? liquiditySince.then(fetchUSLiquidityVintages) : undefined,
+      ...extraFactorIds.map(
+        (id) =>
+          getFactor(id)
+            ?.fetchSeries({ limit, asset })
+            .catch(optional(`factor ${id}`)) ?? []
+      ),
+    ]);
+
+  const extraFactors: Record<string, FREDData[]> = {};
+  extraFactorIds.forEach((id, i) => {
+    extraFactors[id] = extraSeries[i];
+  });
+
+  return {
+    fedData,
+    tgaData,
+    rrpData,
+    asset,
+    priceHistory,
+    candles,
+    pmiHistory,
+    liquidityComponents,
+    extraFactors,
+    ...(liquidityVintages ? { liquidityVintages } : {}),
+  };
+}
+
+/**
+ * How historical z-scores are computed
+ * - "point-in-time": each date only sees observations already published by then
+ * - "vintage": point-in-time, with liquidity readings as FRED had published them on each date
+ *   (ALFRED vintages) rather than as since revised
+ * - "full": every date is scored against the whole window (includes future data)
+ */
+export type HistoryMode = "point-in-time" | "vintage" | "full";
+
+export interface IndexHistoryOptions {
+  mode?: HistoryMode;
+  // Rolling window for point-in-time z-score stats; expanding window when omitted
+  windowDays?: number;
+  // Index profile to replay with; the default profile when omitted
+  config?: IndexConfig;
+  // Asset to fetch prices for; BTC when omitted (the replay itself uses the inputs' asset)
+  asset?: AssetSpec;
+}
+
+/**
+ * Apply a `liquidity=us|global` override to a profile
+ * Throws with a user-facing message for any other value
+ */
+export function withLiquidityModel(config: IndexConfig, model: string | null): IndexConfig {
+  if (!model) return config;
+  if (model !== "us" && model !== "global") {
+    throw new Error(`Unknown liquidity model: ${model}`);
+  }
+  return { ...config, liquidityModel: model };
+}
+
+/**
+ * Read history options from query params (mode, window, profile, liquidity, asset)
+ * Throws with a user-facing message when a value is invalid
+ */
+export async function parseHistoryOptions(
+  searchParams: URLSearchParams
+): Promise<IndexHistoryOptions> {
+  const mode = (searchParams.get("mode") || "point-in-time") as HistoryMode;
+  if (mode !== "point-in-time" && mode !== "vintage" && mode !== "full") {
+    throw new Error(`Unknown history mode: ${mode}`);
+  }
+
+  const window = searchParams.get("window");
+  const windowDays = window ? Number(window) : undefined;
+  if (windowDays !== undefined && (!Number.isInteger(windowDays) || windowDays < 30)) {
+    throw new Error("window must be a whole number of days (at least 30)");
+  }
+
+  const profile = searchParams.get("profile");
+  const config = await getIndexProfile(profile);
+  if (!config) {
+    throw new Error(`Unknown index profile: ${profile}`);
+  }
+
+  const assetId = searchParams.get("asset");
+  const asset = getAsset(assetId);
+  if (!asset) {
+    throw new Error(`Unknown asset: ${assetId}`);
+  }
+
+  return {
+    mode,
+    windowDays,
+    config: withLiquidityModel(config, searchParams.get("liquidity")),
+    asset,
+  };
+}
+
+interface KnownValue {
+  date: string;
+  availableFrom: string;
+  value: number;
+}
+
+/**
+ * Observations that were public on the given date, limited to the rolling window if any
+ */
+function knownAsOf<T extends KnownValue>(
+  entries: T[],
+  asOf: string,
+  windowDays?: number
+): T[] {
+  const windowStart = windowDays ? shiftDate(asOf, -windowDays) : "";
+  return entries.filter(
+    (e) => e.availableFrom <= asOf && e.date <= asOf && e.date >= windowStart
+  );
+}
+
+/**
+ * The index at one price point, with how old each input was on that date
+ */
+export interface IndexReplayPoint {
+  directionIndex: BitcoinDirectionIndex;
+  staleness: InputStaleness;
+}
+
+/**
+ * Prepare the index replay for a set of inputs
+ * The returned function scores one price point (which must be part of priceHistory),
+ * or returns null when there isn't enough data known on that date
+ */
+export function createIndexReplay(
+  inputs: IndexHistoryInputs,
+  options: IndexHistoryOptions = {}
+): (btcPoint: PricePoint) => IndexReplayPoint | null {
+  const {
+    fedData,
+    tgaData,
+    rrpData,
+    asset,
+    priceHistory,
+    candles,
+    pmiHistory,
+    liquidityComponents,
+    extraFactors,
+  } = inputs;
+  const mode = options.mode ?? "point-in-time";
+  const pointInTime = mode !== "full";
+  const liquidityVintages = mode === "vintage" ? inputs.liquidityVintages : undefined;
+  if (mode === "vintage" && !liquidityVintages) {
+    throw new Error("A vintage replay needs the liquidity vintages in its inputs");
+  }
+  const windowDays = pointInTime ? options.windowDays : undefined;
+  const config = options.config ?? DEFAULT_INDEX_CONFIG;
+
+  // Liquidity readings, each tagged with the date it became public
+  // In "full" mode everything is treated as known from the start
+  const liquidityModel = config.liquidityModel ?? "us";
+  const liquidityEntries: LiquidityEntry[] = buildLiquidityEntries(
+    fedData,
+    tgaData,
+    rrpData,
+    liquidityComponents,
+    liquidityModel
+  ).map((entry) => (pointInTime ? entry : { ...entry, availableFrom: "" }));
+
+  // Monthly PMI prints; the same value applies until the next print is known
+  const pmiEntries: KnownValue[] = pmiHistory
+    .map((pmi) => ({
+      date: pmi.date,
+      availableFrom: pointInTime ? getAvailabilityDate("NAPM", pmi.date) : "",
+      value: pmi.value,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Trend bars; prices bucketed by day when the exchange had none
+  const trendCandles = candles.length > 0 ? candles : candlesFromPrices(priceHistory);
+  const trendLookbackMs = trendLookbackDays(config) * DAY_MS;
+
+  // In "full" mode the stats come from the whole window, computed once
+  const fullLiquidityHistory = liquidityEntries.map((e) => e.value);
+  const fullPMIHistory = pmiEntries.map((e) => e.value);
+
+  return (btcPoint) => {
+    const dateStr = btcPoint.date;
+
+    // In "vintage" mode the readings are rebuilt from the vintages current on this date
+    const knownLiquidity = knownAsOf(
+      liquidityVintages
+        ? liquidityEntriesAsKnownOn(
+            liquidityVintages,
+            dateStr,
+            liquidityComponents,
+            liquidityModel
+          )
+        : liquidityEntries,
+      dateStr,
+      windowDays
+    );
+    const knownPMI = knownAsOf(pmiEntries, dateStr, windowDays);
+
+    // Most recent liquidity reading known on this date
+    const latestLiquidity = knownLiquidity[knownLiquidity.length - 1];
+
+    // Most recent PMI print known on this date
+    const latestPMI = knownPMI[knownPMI.length - 1];
+    const pmiValue = latestPMI?.value ?? 50; // Default neutral
+
+    // Bars closed by this point within the trend's lookback; the point's price is the latest price
+    const recentCandles = candlesWithin(trendCandles, btcPoint.timestamp, trendLookbackMs);
+    if (recentCandles.length === 0) {
+      return null; // Need at least one closed bar for trend calculation
+    }
+
+    // Skip dates before any liquidity reading was published, and
+    // point-in-time dates that don't yet have enough history for a z-score
+    if (!latestLiquidity || (pointInTime && knownLiquidity.length < 2)) {
+      return null;
+    }
+
+    const liquidityData = toLiquidityData(
+      latestLiquidity,
+      knownLiquidity[knownLiquidity.length - 2],
+      liquidityModel
+    );
+
+    const pmiData: ISMPMIData = {
+      value: pmiValue,
+      date: dateStr,
+    };
+
+    const btcPrice: AssetPrice = {
+      price: btcPoint.price,
+      timestamp: btcPoint.timestamp,
+      asset: asset.id,
+    };
+
+    // Additional factors follow the same point-in-time rules as the core ones
+    const extraInputs: FactorInputs = {};
+    for (const [id, observations] of Object.entries(extraFactors)) {
+      const factor = getFactor(id);
+      if (!factor) continue;
+      const windowStart = windowDays ? shiftDate(dateStr, -windowDays) : undefined;
+      const series = toFactorSeries(factor, observations, dateStr, windowStart);
+      if (!series) continue;
+      extraInputs[id] = pointInTime
+        ? series
+        : { ...series, history: observations.map((o) => o.value) };
+    }
+
+    // Days since each input's observation; liquidity reports its oldest component
+    const staleness: InputStaleness = {
+      liquidity: Math.max(
+        ...Object.values(latestLiquidity.components).map((c) => daysBetween(c.date, dateStr))
+      ),
+      ...(latestPMI ? { pmi: daysBetween(latestPMI.date, dateStr) } : {}),
+    };
+    for (const [id, series] of Object.entries(extraInputs)) {
+      if (series.date) staleness[id] = daysBetween(series.date, dateStr);
+    }
+
+    const directionIndex = calculateBitcoinDirectionIndex(
+      liquidityData,
+      pointInTime ? knownLiquidity.map((e) => e.value) : fullLiquidityHistory,
+      pmiData,
+      pointInTime ? knownPMI.map((e) => e.value) : fullPMIHistory,
+      btcPrice,
+      recentCandles,
+      config,
+      extraInputs
+    );
+    return { directionIndex, staleness };
+  };
+}
+
+/**
+ * Replay calculateBitcoinDirectionIndex for every BTC price point
+ * Returns an empty array when there is no liquidity data to work with
+ */
+export function computeIndexHistory(
+  inputs: IndexHistoryInputs,
+  options: IndexHistoryOptions = {}
+): IndexHistoryPoint[] {
+  // Calculate historical index values
+  // We'll calculate for each day where we have all the data
+  const indexHistory: IndexHistoryPoint[] = [];
+
+  if (inputs.fedData.length === 0) {
+    return indexHistory;
+  }
+
+  const replay = createIndexReplay(inputs, options);
+
+  // For each Bitcoin price point, calculate the index
+  for (const btcPoint of inputs.priceHistory) {
+    try {
+      const point = replay(btcPoint);
+      if (!point) continue;
+
+      indexHistory.push({
+        timestamp: btcPoint.timestamp,
+        date: btcPoint.date,
+        index: point.directionIndex.index,
+        price: btcPoint.price,
+        staleness: point.staleness,
+      });
+    } catch (calcError) {
+      // Skip if calculation fails
+      console.warn(`Failed to calculate index for ${btcPoint.date}:`, calcError);
+      continue;
+    }
+  }
+
+  return indexHistory;
+}
+
+// Factors driven by the BTC price itself; every other factor should read the same
+// for the live price and for the history's close on the same day
+const PRICE_FACTOR_IDS = ["btcTrend"];
+
+const FACTOR_TOLERANCE = 1e-9;
+
+/**
+ * Compare the live index against the history replay's point for the same day
+ * Macro factors must agree exactly; price-driven factors may differ with the price
+ */
+export function checkIndexConsistency(
+  live: BitcoinDirectionIndex,
+  liveDate: string,
+  reference: BitcoinDirectionIndex | null,
+  referencePoint: PricePoint | undefined
+): IndexConsistency {
+  if (!reference || !referencePoint) {
+    return {
+      referenceDate: null,
+      referenceIndex: null,
+      difference: null,
+      mismatchedFactors: [],
+      consistent: false,
+      message: "No history point to compare against",
+    };
+  }
+
+  const mismatchedFactors = live.factors
+    .filter((factor) => !PRICE_FACTOR_IDS.includes(factor.id))
+    .filter((factor) => {
+      const other = reference.factors.find((f) => f.id === factor.id);
+      return (
+        !other ||
+        other.available !== factor.available ||
+        Math.abs(other.normalized - factor.normalized) > FACTOR_TOLERANCE
+      );
+    })
+    .map((factor) => factor.id);
+
+  const stale = referencePoint.date !== liveDate;
+  const problems = [
+    ...(stale ? [`history ends on ${referencePoint.date}`] : []),
+    ...(mismatchedFactors.length > 0 ? [`factors differ: ${mismatchedFactors.join(", ")}`] : []),
+  ];
+
+  return {
+    referenceDate: referencePoint.date,
+    referenceIndex: reference.index,
+    difference: live.index - reference.index,
+    mismatchedFactors,
+    consistent: problems.length === 0,
+    ...(problems.length > 0 ? { message: problems.join("; ") } : {}),
+  };
+}
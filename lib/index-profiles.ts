@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IndexConfig } from './types';
+import { BUILT_IN_PROFILES, DEFAULT_INDEX_CONFIG, validateIndexConfig } from './index-config';
+
+// Saved profiles live in a JSON file so variants can be shared without forking the formula
+const PROFILES_FILE =
+  process.env.INDEX_PROFILES_FILE || path.join(process.cwd(), 'index-profiles.json');
+
+async function readSavedProfiles(): Promise<IndexConfig[]> {
+  try {
+    const raw = await fs.readFile(PROFILES_FILE, 'utf8');
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    // Ignore (but report) invalid entries rather than failing every request
+    return parsed.filter((config: IndexConfig) => {
+      const errors = validateIndexConfig(config);
+      if (errors.length > 0) {
+        console.warn(`Ignoring invalid index profile "${config?.name}":`, errors);
+        return false;
+      }
+      return true;
+    });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    console.error('Error reading index profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * All available profiles; saved profiles override built-ins with the same name
+ */
+export async function listIndexProfiles(): Promise<IndexConfig[]> {
+  const profiles = new Map<string, IndexConfig>();
+  for (const config of [...BUILT_IN_PROFILES, ...(await readSavedProfiles())]) {
+    profiles.set(config.name, config);
+  }
+  return Array.from(profiles.values());
+}
+
+/**
+ * Resolve a profile by name (the default profile when no name is given)
+ * Returns undefined for unknown names
+ */
+export async function getIndexProfile(name?: string | null): Promise<IndexConfig | undefined> {
+  if (!name || name === DEFAULT_INDEX_CONFIG.name) return DEFAULT_INDEX_CONFIG;
+  const profiles = await listIndexProfiles();
+  return profiles.find((p) => p.name === name);
+}
+
+/**
+ * Validate and save a profile, replacing any saved profile with the same name
+ * Throws with the validation errors when the profile is invalid
+ */
+export async function saveIndexProfile(config: IndexConfig): Promise<IndexConfig> {
+  const errors = validateIndexConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid index profile: ${errors.join('; ')}`);
+  }
+  if (config.name === DEFAULT_INDEX_CONFIG.name) {
+    throw new Error('The default profile cannot be overwritten');
+  }
+
+  const saved = (await readSavedProfiles()).filter((p) => p.name !== config.name);
+  saved.push(config);
+  await fs.writeFile(PROFILES_FILE, JSON.stringify(saved, null, 2) + '\n', 'utf8');
+  return config;
+}
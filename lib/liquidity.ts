@@ -0,0 +1,281 @@
+import { getFREDSeries } from "./store";
+import { getFREDSeriesInMillions, getFREDSeriesInMillionsSince } from "./series-catalog";
+import { getAvailabilityDate } from "./publication-lag";
+import { AlignedObservation, daysBetween, forwardFill, observationAsOf } from "./alignment";
+import { FREDData, LiquidityData, LiquidityModel } from "./types";
+import { MILLION } from "./units";
+
+/**
+ * One balance sheet line in the liquidity model
+ */
+export interface LiquidityComponentSpec {
+  id: string;
+  label: string;
+  seriesId: string;
+  sign: 1 | -1; // central bank assets add liquidity; the TGA and RRP drain it
+  // FX series converting the currency to USD; omitted for USD series
+  fx?: { seriesId: string; quote: "usd-per-unit" | "units-per-usd" };
+  // Oldest observation still carried forward to a Fed date
+  maxStaleDays?: number;
+  // Value before the series starts (e.g. the RRP facility didn't exist before 2013)
+  beforeStart?: number;
+}
+
+// Fewest Fed readings fetched, so even a 1D window has a year of liquidity history to score
+const MIN_LIQUIDITY_READINGS = 52;
+
+// Fed - TGA - RRP, joined on the Fed's weekly dates
+export const US_LIQUIDITY_COMPONENTS: LiquidityComponentSpec[] = [
+  { id: "fed", label: "Fed Balance Sheet", seriesId: "WALCL", sign: 1 },
+  {
+    id: "tga",
+    label: "Treasury General Account",
+    seriesId: "WTREGEN",
+    sign: -1,
+    maxStaleDays: 14,
+  },
+  {
+    id: "rrp",
+    label: "Reverse Repo",
+    seriesId: "RRPONTSYD",
+    sign: -1,
+    maxStaleDays: 7,
+    beforeStart: 0,
+  },
+];
+
+// Other central banks, carried forward to each Fed date and converted to USD
+export const GLOBAL_LIQUIDITY_COMPONENTS: LiquidityComponentSpec[] = [
+  {
+    id: "ecb",
+    label: "ECB Balance Sheet",
+    seriesId: "ECBASSETSW",
+    sign: 1,
+    fx: { seriesId: "DEXUSEU", quote: "usd-per-unit" },
+    maxStaleDays: 21,
+  },
+  {
+    id: "boj",
+    label: "BoJ Balance Sheet",
+    seriesId: "JPNASSETS",
+    sign: 1,
+    fx: { seriesId: "DEXJPUS", quote: "units-per-usd" },
+    maxStaleDays: 75,
+  },
+  {
+    // FRED has no PBoC balance sheet; FX reserves are the bulk of its assets
+    id: "pboc",
+    label: "PBoC (FX reserves)",
+    seriesId: "TRESEGCNM052N",
+    sign: 1,
+    maxStaleDays: 75,
+  },
+];
+
+export function liquidityComponents(model: LiquidityModel = "us"): LiquidityComponentSpec[] {
+  return model === "global"
+    ? [...US_LIQUIDITY_COMPONENTS, ...GLOBAL_LIQUIDITY_COMPONENTS]
+    : US_LIQUIDITY_COMPONENTS;
+}
+
+/**
+ * A component in millions of its currency, covering the Fed dates from `since` onward
+ * Fetched by date rather than by count: a daily series cut to as many observations as the
+ * weekly Fed series would start years later, and read as not existing yet before that
+ */
+function fetchComponentSince(spec: LiquidityComponentSpec, since?: string): Promise<FREDData[]> {
+  return since === undefined
+    ? getFREDSeriesInMillions(spec.seriesId)
+    : getFREDSeriesInMillionsSince(spec.seriesId, since);
+}
+
+/**
+ * A non-US component in millions of USD
+ * Each observation is converted at the FX rate known on its date; observations
+ * before the FX series starts are dropped
+ */
+async function fetchComponentInUSD(
+  spec: LiquidityComponentSpec,
+  since?: string
+): Promise<FREDData[]> {
+  const [series, fx] = await Promise.all([
+    fetchComponentSince(spec, since),
+    spec.fx ? getFREDSeries(spec.fx.seriesId) : Promise.resolve([]),
+  ]);
+
+  const quote = spec.fx?.quote;
+  if (!quote) return series;
+
+  return series.flatMap((obs) => {
+    const rate = observationAsOf(fx, obs.date)?.value;
+    if (!rate) return [];
+    const usd = quote === "usd-per-unit" ? obs.value * rate : obs.value / rate;
+    return [{ date: obs.date, value: usd }];
+  });
+}
+
+/**
+ * Fed balance sheet, TGA and RRP in millions of USD
+ * FRED publishes RRPONTSYD in billions and the other two in millions, so they are converted first
+ * `limit` is the number of Fed readings (at least a year's); the TGA and RRP cover the same dates
+ */
+export async function fetchUSLiquiditySeries(
+  limit?: number
+): Promise<{ fedData: FREDData[]; tgaData: FREDData[]; rrpData: FREDData[] }> {
+  const [fed, tga, rrp] = US_LIQUIDITY_COMPONENTS;
+  const fedData = await getFREDSeriesInMillions(
+    fed.seriesId,
+    limit === undefined ? undefined : Math.max(limit, MIN_LIQUIDITY_READINGS)
+  );
+  const since = limit === undefined ? undefined : fedData[0]?.date;
+  const [tgaData, rrpData] = await Promise.all([
+    fetchComponentSince(tga, since),
+    fetchComponentSince(rrp, since),
+  ]);
+  return { fedData, tgaData, rrpData };
+}
+
+/**
+ * Non-US components of the liquidity model in millions of USD, keyed by component id
+ * `since` is the first Fed date they are joined to; everything when omitted. Empty for the US model
+ */
+export async function fetchLiquidityComponents(
+  model: LiquidityModel = "us",
+  since?: string
+): Promise<Record<string, FREDData[]>> {
+  if (model !== "global") return {};
+
+  const entries = await Promise.all(
+    GLOBAL_LIQUIDITY_COMPONENTS.map(
+      async (spec) => [spec.id, await fetchComponentInUSD(spec, since)] as const
+    )
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * One liquidity reading with the signed value of every component that went into it
+ */
+export interface LiquidityEntry {
+  date: string;
+  availableFrom: string; // when every component of the reading had been published
+  value: number;
+  components: Record<string, { value: number; date: string; staleDays: number }>;
+}
+
+/**
+ * Combine the components into one reading per Fed date
+ * TGA and RRP are carried forward to each Fed date; other central banks contribute their
+ * latest print published by the time the US reading is. A reading is skipped while any
+ * component has no value recent enough (see maxStaleDays)
+ */
+export function buildLiquidityEntries(
+  fedData: FREDData[],
+  tgaData: FREDData[],
+  rrpData: FREDData[],
+  globalComponents: Record<string, FREDData[]> = {},
+  model: LiquidityModel = "us"
+): LiquidityEntry[] {
+  const fedSeries = [...fedData].sort((a, b) => a.date.localeCompare(b.date));
+  const calendar = fedSeries.map((fed) => fed.date);
+  const availableFrom = calendar.map(
+    (date) =>
+      [
+        getAvailabilityDate("WALCL", date),
+        getAvailabilityDate("WTREGEN", date),
+        getAvailabilityDate("RRPONTSYD", date),
+      ].sort()[2]
+  );
+
+  const [, tgaSpec, rrpSpec] = US_LIQUIDITY_COMPONENTS;
+  const aligned: { spec: LiquidityComponentSpec; values: (AlignedObservation | null)[] }[] = [
+    { spec: tgaSpec, values: forwardFill(tgaData, calendar, tgaSpec) },
+    { spec: rrpSpec, values: forwardFill(rrpData, calendar, rrpSpec) },
+  ];
+  if (model === "global") {
+    for (const spec of GLOBAL_LIQUIDITY_COMPONENTS) {
+      aligned.push({
+        spec,
+        values: forwardFill(globalComponents[spec.id] ?? [], availableFrom, {
+          knownFrom: (obs) => getAvailabilityDate(spec.seriesId, obs.date),
+        }),
+      });
+    }
+  }
+
+  return fedSeries.flatMap((fed, i): LiquidityEntry[] => {
+    const components: LiquidityEntry["components"] = {
+      fed: { value: fed.value, date: fed.date, staleDays: 0 },
+    };
+
+    for (const { spec, values } of aligned) {
+      const obs = values[i];
+      // Staleness is measured against the reading's date, not its publication date
+      const staleDays = obs ? daysBetween(obs.sourceDate, fed.date) : Infinity;
+      if (!obs || (spec.maxStaleDays !== undefined && staleDays > spec.maxStaleDays)) {
+        return [];
+      }
+      components[spec.id] = { value: spec.sign * obs.value, date: obs.sourceDate, staleDays };
+    }
+
+    return [
+      {
+        date: fed.date,
+        availableFrom: availableFrom[i],
+        value: Object.values(components).reduce((sum, c) => sum + c.value, 0),
+        components,
+      },
+    ];
+  });
+}
+
+/**
+ * LiquidityData for a reading, with each component's change since the previous reading
+ */
+export function toLiquidityData(
+  entry: LiquidityEntry,
+  previous?: LiquidityEntry,
+  model: LiquidityModel = "us"
+): LiquidityData {
+  return {
+    fedBalanceSheet: entry.components.fed?.value ?? 0,
+    tga: -(entry.components.tga?.value ?? 0),
+    rrp: -(entry.components.rrp?.value ?? 0),
+    liquidity: entry.value,
+    date: entry.date,
+    model,
+    scale: MILLION,
+    components: liquidityComponents(model)
+      .filter((spec) => entry.components[spec.id])
+      .map((spec) => {
+        const current = entry.components[spec.id];
+        const before = previous?.components[spec.id];
+        return {
+          id: spec.id,
+          label: spec.label,
+          value: current.value,
+          change: before ? current.value - before.value : null,
+          date: current.date,
+          staleDays: current.staleDays,
+        };
+      }),
+  };
+}
+
+/**
+ * Latest liquidity reading of a model, as shown on the dashboard
+ * Throws when no date has every component available
+ */
+export function latestLiquidityData(
+  fedData: FREDData[],
+  tgaData: FREDData[],
+  rrpData: FREDData[],
+  globalComponents: Record<string, FREDData[]> = {},
+  model: LiquidityModel = "us"
+): LiquidityData {
+  const entries = buildLiquidityEntries(fedData, tgaData, rrpData, globalComponents, model);
+  if (entries.length === 0) {
+    throw new Error("No liquidity data available");
+  }
+  return toLiquidityData(entries[entries.length - 1], entries[entries.length - 2], model);
+}
@@ -0,0 +1,120 @@
+import {
+  checkIndexConsistency,
+  createIndexReplay,
+  fetchIndexHistoryInputs,
+  IndexHistoryInputs,
+  IndexReplayPoint,
+} from "./index-history";
+import { AssetSpec, DEFAULT_ASSET } from "./assets";
+import { DEFAULT_INDEX_CONFIG } from "./index-config";
+import { getAssetPrice } from "./store";
+import {
+  BitcoinDirectionIndex,
+  AssetPrice,
+  IndexConfig,
+  IndexConsistency,
+  InputStaleness,
+  PricePoint,
+} from "./types";
+
+export interface LiveIndex {
+  btcPrice: AssetPrice;
+  // The last year of inputs (daily closes from the store), as used by the 1Y history view
+  inputs: IndexHistoryInputs;
+  date: string;
+  directionIndex: BitcoinDirectionIndex;
+  staleness: InputStaleness;
+  // The index at the last daily close before today, for day-over-day changes
+  previousClose: BitcoinDirectionIndex | null;
+  consistency: IndexConsistency;
+}
+
+/**
+ * The replay for live prices on `date`, built from the daily closes before that day only
+ * A live point passed to it stands in for the day's close without becoming part of its history
+ */
+function createLiveReplay(
+  inputs: IndexHistoryInputs,
+  date: string,
+  config: IndexConfig
+): { closes: PricePoint[]; replay: (point: PricePoint) => IndexReplayPoint | null } {
+  const closes = inputs.priceHistory.filter((p) => p.date < date);
+  const replay = createIndexReplay({ ...inputs, priceHistory: closes }, { config });
+  return { closes, replay };
+}
+
+function toLivePoint(price: AssetPrice): PricePoint {
+  const date = new Date(price.timestamp).toISOString().split("T")[0];
+  return { timestamp: price.timestamp, date, price: price.price };
+}
+
+function assertLiquidityData(inputs: IndexHistoryInputs): void {
+  if (inputs.fedData.length === 0 || inputs.tgaData.length === 0 || inputs.rrpData.length === 0) {
+    throw new Error("No liquidity data available");
+  }
+}
+
+/**
+ * Score an asset's current price (BTC by default) with the same replay as /api/index/history
+ * Daily closes up to yesterday are used, with the live price standing in for today's close
+ */
+export async function computeLiveIndex(
+  config: IndexConfig = DEFAULT_INDEX_CONFIG,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<LiveIndex> {
+  const [inputs, btcPrice] = await Promise.all([
+    fetchIndexHistoryInputs(365, config, asset),
+    getAssetPrice(asset),
+  ]);
+
+  assertLiquidityData(inputs);
+
+  const livePoint = toLivePoint(btcPrice);
+  const { date } = livePoint;
+  const { closes, replay: replayLive } = createLiveReplay(inputs, date, config);
+  const live = replayLive(livePoint);
+  if (!live) {
+    throw new Error("Not enough data to calculate the index");
+  }
+  const { directionIndex, staleness } = live;
+
+  const lastClose = closes[closes.length - 1];
+  const previousClose = lastClose ? replayLive(lastClose)?.directionIndex ?? null : null;
+
+  // What the history route reports for its latest point
+  const referencePoint = inputs.priceHistory[inputs.priceHistory.length - 1];
+  const reference = referencePoint
+    ? createIndexReplay(inputs, { config })(referencePoint)?.directionIndex ?? null
+    : null;
+  const consistency = checkIndexConsistency(directionIndex, date, reference, referencePoint);
+  if (!consistency.consistent) {
+    console.warn("Live index is inconsistent with history:", consistency.message);
+  }
+
+  return { btcPrice, inputs, date, directionIndex, staleness, previousClose, consistency };
+}
+
+/**
+ * Index for streamed prices of an asset, as computeLiveIndex would score them
+ * The inputs are loaded once, so only the price (and with it the trend factor) moves; create a
+ * new scorer to pick up new closes and releases
+ */
+export async function createLiveScorer(
+  config: IndexConfig = DEFAULT_INDEX_CONFIG,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<(price: AssetPrice) => BitcoinDirectionIndex | null> {
+  const inputs = await fetchIndexHistoryInputs(365, config, asset);
+  assertLiquidityData(inputs);
+
+  // The replay only depends on the day of the price (through the closes before it), so it is
+  // rebuilt when the day changes and every tick of the day is scored on top of it
+  let day: { date: string; replay: (point: PricePoint) => IndexReplayPoint | null } | null = null;
+  return (price) => {
+    const livePoint = toLivePoint(price);
+    if (day?.date !== livePoint.date) {
+      const { replay } = createLiveReplay(inputs, livePoint.date, config);
+      day = { date: livePoint.date, replay };
+    }
+    return day.replay(livePoint)?.directionIndex ?? null;
+  };
+}
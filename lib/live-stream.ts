@@ -0,0 +1,116 @@
+import { AssetSpec, DEFAULT_ASSET } from "./assets";
+import { DEFAULT_INDEX_CONFIG } from "./index-config";
+import { createLiveScorer } from "./live-index";
+import { subscribeTicker, TICKER_PROVIDER_NAME } from "./providers";
+import { AssetPrice, BitcoinDirectionIndex, IndexConfig } from "./types";
+
+// The index is rescored at most this often, however fast ticks arrive
+const INDEX_INTERVAL_MS = 1000;
+
+// Closes and releases are reloaded this often, so a long-lived stream rolls over to new days
+const SCORER_MAX_AGE_MS = 15 * 60 * 1000;
+
+// After a failed load, ticks go unscored for this long before the inputs are loaded again
+const SCORER_RETRY_MS = 60 * 1000;
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+type Scorer = (price: AssetPrice) => BitcoinDirectionIndex | null;
+
+/**
+ * Server-sent events with an asset's streaming price and the live index rescored from it
+ * Events: `status` ({ status, provider }), `price` (AssetPrice), `index` (BitcoinDirectionIndex)
+ * and `error` ({ error }) when the index inputs can't be loaded; the stream ends with `signal`
+ */
+export function createLiveStream(
+  asset: AssetSpec = DEFAULT_ASSET,
+  config: IndexConfig = DEFAULT_INDEX_CONFIG,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      let scorer: { score: Scorer; loadedAt: number } | null = null;
+      let loading: Promise<void> | null = null;
+      let failedAt = 0;
+      const loadScorer = () => {
+        loading ??= createLiveScorer(config, asset)
+          .then((score) => {
+            scorer = { score, loadedAt: Date.now() };
+          })
+          .catch((error: unknown) => {
+            failedAt = Date.now();
+            console.error(`Live index inputs for ${asset.id} could not be loaded:`, error);
+            const message = error instanceof Error ? error.message : "Failed to load index inputs";
+            send("error", { error: message });
+          })
+          .finally(() => {
+            loading = null;
+          });
+        return loading;
+      };
+
+      // Rescore with the latest tick, coalescing ticks that arrive within the interval
+      let latest: AssetPrice | null = null;
+      let scoredAt = 0;
+      let indexTimer: NodeJS.Timeout | null = null;
+      const scoreLatest = () => {
+        indexTimer = null;
+        if (closed || !latest) return;
+        const expired = !scorer || Date.now() - scorer.loadedAt > SCORER_MAX_AGE_MS;
+        if (expired && Date.now() - failedAt > SCORER_RETRY_MS) {
+          loadScorer().then(() => scheduleIndex());
+        }
+        if (!scorer) return;
+        scoredAt = Date.now();
+        const directionIndex = scorer.score(latest);
+        if (directionIndex) send("index", directionIndex);
+      };
+      const scheduleIndex = () => {
+        if (indexTimer || closed) return;
+        const wait = Math.max(0, scoredAt + INDEX_INTERVAL_MS - Date.now());
+        indexTimer = setTimeout(scoreLatest, wait);
+      };
+
+      const unsubscribe = subscribeTicker(asset, {
+        onTick: (price) => {
+          latest = price;
+          send("price", price);
+          scheduleIndex();
+        },
+        onStatus: (status) => send("status", { status, provider: TICKER_PROVIDER_NAME }),
+      });
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": ping\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (indexTimer) clearTimeout(indexTimer);
+      };
+      signal?.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+}
@@ -0,0 +1,161 @@
+import { getFREDSeries, mergeByDate, readSeries, writeSeries } from "./store";
+import { ISMPMIData, PMIObservation, PMISource } from "./types";
+
+// Manual and CSV-imported ISM prints live in the local store next to the FRED series
+const PMI_ENTRIES_KEY = "pmi/ism-manufacturing";
+
+const SOURCE_NOTES: Record<PMISource, string> = {
+  FRED_NAPM: "Using NAPM as proxy. For accurate ISM PMI, consider using a paid data provider or manual entry.",
+  manual: "ISM Manufacturing PMI entered manually.",
+  csv: "ISM Manufacturing PMI imported from CSV.",
+  placeholder: "This is placeholder data. Please integrate with a real PMI data source. ISM PMI is published monthly at https://www.ismworld.org/",
+};
+
+/**
+ * Normalize "YYYY-MM" or "YYYY-MM-DD" to the first day of the month
+ * Returns null when the date can't be parsed
+ */
+function toMonthStart(date: string): string | null {
+  const match = /^(\d{4})-(\d{2})(?:-\d{2})?$/.exec(date.trim());
+  if (!match) return null;
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return `${match[1]}-${match[2]}-01`;
+}
+
+/**
+ * Validate a PMI print and normalize its date
+ * Throws with a user-facing message when the entry is invalid
+ */
+export function validatePMIEntry(
+  entry: { date: string; value: number; note?: string },
+  source: Extract<PMISource, "manual" | "csv">
+): PMIObservation {
+  const date = typeof entry.date === "string" ? toMonthStart(entry.date) : null;
+  if (!date) {
+    throw new Error(`Invalid PMI date "${entry.date}" (expected YYYY-MM)`);
+  }
+  if (date > new Date().toISOString().split("T")[0]) {
+    throw new Error(`PMI date ${date} is in the future`);
+  }
+  if (typeof entry.value !== "number" || !isFinite(entry.value) || entry.value < 0 || entry.value > 100) {
+    throw new Error(`Invalid PMI value for ${date}: must be between 0 and 100`);
+  }
+
+  return {
+    date,
+    value: entry.value,
+    source,
+    ...(entry.note ? { note: entry.note } : {}),
+    enteredAt: Date.now(),
+  };
+}
+
+/**
+ * Parse a CSV of PMI prints with a "date,value" header (an optional "note" column is kept)
+ * Throws with the offending line number when a row is invalid
+ */
+export function parsePMICSV(text: string): PMIObservation[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error("CSV is empty");
+  }
+
+  const header = lines[0].toLowerCase().split(",").map((h) => h.trim());
+  const dateColumn = header.indexOf("date");
+  const valueColumn = header.indexOf("value");
+  const noteColumn = header.indexOf("note");
+  if (dateColumn === -1 || valueColumn === -1) {
+    throw new Error('CSV header must include "date" and "value" columns');
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((c) => c.trim());
+    try {
+      // Number("") is 0, which would pass as a reading
+      const value = cells[valueColumn] ?? "";
+      if (value === "") {
+        throw new Error("PMI value is empty");
+      }
+      return validatePMIEntry(
+        {
+          date: cells[dateColumn] ?? "",
+          value: Number(value),
+          note: noteColumn === -1 ? undefined : cells[noteColumn],
+        },
+        "csv"
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Invalid row";
+      throw new Error(`Line ${i + 2}: ${message}`);
+    }
+  });
+}
+
+/**
+ * Save manual or imported prints; an entry replaces any stored print for the same month
+ */
+export async function savePMIEntries(entries: PMIObservation[]): Promise<number> {
+  const stored = await readSeries<PMIObservation>(PMI_ENTRIES_KEY);
+  const observations = mergeByDate(stored?.observations ?? [], entries);
+  await writeSeries({ key: PMI_ENTRIES_KEY, lastSyncedAt: Date.now(), observations });
+  return observations.length;
+}
+
+/**
+ * Full PMI history: FRED's NAPM proxy overlaid with manual and imported ISM prints
+ * Entered prints win over the proxy for the same month. FRED failures are tolerated
+ */
+export async function getPMIHistory(limit?: number): Promise<PMIObservation[]> {
+  const [fredHistory, stored] = await Promise.all([
+    getFREDSeries("NAPM").catch((error) => {
+      console.error("Error fetching NAPM:", error);
+      return [];
+    }),
+    readSeries<PMIObservation>(PMI_ENTRIES_KEY),
+  ]);
+
+  const history = mergeByDate<PMIObservation>(
+    fredHistory.map((obs) => ({ ...obs, source: "FRED_NAPM" })),
+    stored?.observations ?? []
+  );
+  return limit === undefined ? history : history.slice(-limit);
+}
+
+/**
+ * Latest print (with month-over-month change) from a PMI history
+ * A neutral placeholder (50) when the history is empty
+ */
+export function toPMIData(history: PMIObservation[]): ISMPMIData {
+  const latest = history[history.length - 1];
+  if (!latest) {
+    return {
+      value: 50, // Neutral PMI (50 is the threshold)
+      date: new Date().toISOString().split("T")[0],
+      change: 0,
+      source: "placeholder",
+      note: SOURCE_NOTES.placeholder,
+    };
+  }
+
+  const previous = history.length > 1 ? history[history.length - 2] : latest;
+  return {
+    value: latest.value,
+    date: latest.date,
+    change: latest.value - previous.value,
+    source: latest.source,
+    note: latest.note || SOURCE_NOTES[latest.source],
+  };
+}
+
+/**
+ * Latest PMI print from every available source
+ */
+export async function fetchPMI(): Promise<ISMPMIData> {
+  try {
+    return toPMIData(await getPMIHistory(12));
+  } catch (error) {
+    console.error("Error fetching PMI:", error);
+    return toPMIData([]);
+  }
+}
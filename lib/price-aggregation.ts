@@ -0,0 +1,101 @@
+import { AssetSpec, DEFAULT_ASSET } from "./assets";
+import {
+  EXCHANGE_ADAPTERS,
+  ExchangeAdapter,
+  ExchangeQuote,
+  fetchExchangeQuotes,
+  ProviderError,
+} from "./providers";
+import { AssetPrice, PriceSource } from "./types";
+
+// Quotes further than this from the median of all quotes are left out, e.g. 0.01 = 1%
+export const OUTLIER_THRESHOLD = 0.01;
+
+// With fewer quotes there is no majority to tell which side is wrong
+const MIN_QUOTES_FOR_REJECTION = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Volume-weighted mean of `value` over quotes, or the plain mean when no volume is reported
+ */
+function volumeWeighted(quotes: ExchangeQuote[], value: (quote: ExchangeQuote) => number): number {
+  const weight = (quote: ExchangeQuote) => (quote.volume24h > 0 ? quote.volume24h : 0);
+  const totalVolume = quotes.reduce((sum, quote) => sum + weight(quote), 0);
+  if (totalVolume === 0) {
+    return quotes.reduce((sum, quote) => sum + value(quote), 0) / quotes.length;
+  }
+  return quotes.reduce((sum, quote) => sum + value(quote) * weight(quote), 0) / totalVolume;
+}
+
+/**
+ * Reference price of an asset from several exchanges' quotes
+ * Quotes more than OUTLIER_THRESHOLD from the median are rejected (given at least three quotes);
+ * the rest are volume-weighted. The 24h change weighs the venues' opens the same way
+ * Returns null when there are no quotes
+ */
+export function aggregateQuotes(
+  quotes: ExchangeQuote[],
+  asset: AssetSpec = DEFAULT_ASSET
+): AssetPrice | null {
+  if (quotes.length === 0) return null;
+
+  const mid = median(quotes.map((quote) => quote.price));
+  const deviation = (quote: ExchangeQuote) => Math.abs(quote.price - mid) / mid;
+  const isOutlier = (quote: ExchangeQuote) =>
+    quotes.length >= MIN_QUOTES_FOR_REJECTION && deviation(quote) > OUTLIER_THRESHOLD;
+  const used = quotes.filter((quote) => !isOutlier(quote));
+
+  const price = volumeWeighted(used, (quote) => quote.price);
+  const withOpen = used.filter((quote) => quote.open24h !== undefined && quote.open24h > 0);
+  const open = withOpen.length > 0 ? volumeWeighted(withOpen, (quote) => quote.open24h!) : null;
+
+  return {
+    price,
+    timestamp: Math.max(...used.map((quote) => quote.timestamp)),
+    ...(open !== null ? { change24h: ((price - open) / open) * 100 } : {}),
+    asset: asset.id,
+    sources: quotes.map((quote) => ({
+      exchange: quote.exchange,
+      status: isOutlier(quote) ? "outlier" : "used",
+      price: quote.price,
+      volume24h: quote.volume24h,
+      deviation: deviation(quote),
+    })),
+  };
+}
+
+/**
+ * Current price of an asset (BTC by default) aggregated across exchanges
+ * Venues that fail are reported in `sources`; throws only when every venue fails
+ */
+export async function fetchAggregatedPrice(
+  asset: AssetSpec = DEFAULT_ASSET,
+  adapters: ExchangeAdapter[] = EXCHANGE_ADAPTERS
+): Promise<AssetPrice> {
+  const results = await fetchExchangeQuotes(asset, adapters);
+  const quotes: ExchangeQuote[] = [];
+  const failed: PriceSource[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      quotes.push(result.value);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : "Unknown error";
+      console.warn(`${adapters[i].name} ${asset.symbol} quote failed: ${message}`);
+      failed.push({ exchange: adapters[i].name, status: "failed", error: message });
+    }
+  });
+
+  const aggregated = aggregateQuotes(quotes, asset);
+  if (!aggregated) {
+    throw new ProviderError(
+      `No exchange returned a ${asset.symbol} price: ${failed.map((f) => f.error).join("; ")}`,
+      "Exchanges"
+    );
+  }
+  return { ...aggregated, sources: [...(aggregated.sources ?? []), ...failed] };
+}
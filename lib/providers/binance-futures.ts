@@ -0,0 +1,158 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AssetSpec } from "../assets";
+import { FREDData } from "../types";
+import { ProviderError } from "./errors";
+import { getWithRetry } from "./http";
+
+export type DerivativesMetric = "funding" | "openInterest" | "basis";
+
+export const DERIVATIVES_METRICS: DerivativesMetric[] = ["funding", "openInterest", "basis"];
+
+// "binance" requests the public futures API; "file" replays recorded responses from fixtures/derivatives
+export const DERIVATIVES_PROVIDER_NAME =
+  process.env.DERIVATIVES_PROVIDER === "file" ? "file" : "binance";
+
+const BINANCE_FUTURES_URL = "https://fapi.binance.com";
+
+const DERIVATIVES_FIXTURES_DIR =
+  process.env.DERIVATIVES_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "derivatives");
+
+interface BinanceFundingRate {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: string; // per 8h funding interval
+}
+
+interface BinanceOpenInterest {
+  symbol: string;
+  sumOpenInterest: string; // contracts
+  sumOpenInterestValue: string; // USD
+  timestamp: number;
+}
+
+interface BinanceBasis {
+  pair: string;
+  contractType: string;
+  annualizedBasisRate: string;
+  timestamp: number;
+}
+
+/**
+ * GET a Binance futures endpoint, or read its recorded response with the file provider
+ * Recorded responses live in `<symbol>-<endpoint name>.json` and are filtered like the API would
+ */
+async function getFutures<T extends object>(
+  endpoint: string,
+  symbol: string,
+  params: Record<string, string | number>
+): Promise<T[]> {
+  if (DERIVATIVES_PROVIDER_NAME === "binance") {
+    return getWithRetry<T[]>("Binance", `${BINANCE_FUTURES_URL}${endpoint}`, params);
+  }
+
+  const file = path.join(DERIVATIVES_FIXTURES_DIR, `${symbol}-${path.basename(endpoint)}.json`);
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T[];
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new ProviderError(
+      `Recorded derivatives response could not be read: ${message}`,
+      "file",
+      undefined,
+      false
+    );
+  }
+}
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString().split("T")[0];
+
+/**
+ * Average the observations that fall on the same UTC day
+ */
+function dailyMean(points: { timestamp: number; value: number }[]): FREDData[] {
+  const days = new Map<string, { sum: number; count: number }>();
+  for (const point of points) {
+    const date = toDate(point.timestamp);
+    const day = days.get(date) ?? { sum: 0, count: 0 };
+    day.sum += point.value;
+    day.count++;
+    days.set(date, day);
+  }
+  return Array.from(days.entries())
+    .map(([date, { sum, count }]) => ({ date, value: sum / count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Daily mean perpetual funding rate (per 8h interval, e.g. 0.0001 = 0.01%) on or after `since`
+ */
+async function fetchFundingRates(asset: AssetSpec, since?: string): Promise<FREDData[]> {
+  const startTime = since ? Date.parse(`${since}T00:00:00Z`) : undefined;
+  const rates = await getFutures<BinanceFundingRate>("/fapi/v1/fundingRate", asset.futuresSymbol, {
+    symbol: asset.futuresSymbol,
+    limit: 1000,
+    ...(startTime !== undefined ? { startTime } : {}),
+  });
+  return dailyMean(
+    rates
+      .filter((rate) => startTime === undefined || rate.fundingTime >= startTime)
+      .map((rate) => ({ timestamp: rate.fundingTime, value: parseFloat(rate.fundingRate) }))
+  );
+}
+
+/**
+ * Daily open interest of the perpetual in USD
+ * Binance only serves the last 30 days; the store keeps everything older
+ */
+async function fetchOpenInterest(asset: AssetSpec, since?: string): Promise<FREDData[]> {
+  const history = await getFutures<BinanceOpenInterest>(
+    "/futures/data/openInterestHist",
+    asset.futuresSymbol,
+    { symbol: asset.futuresSymbol, period: "1d", limit: 30 }
+  );
+  return dailyMean(
+    history.map((point) => ({
+      timestamp: point.timestamp,
+      value: parseFloat(point.sumOpenInterestValue),
+    }))
+  ).filter((obs) => !since || obs.date >= since);
+}
+
+/**
+ * Daily annualized basis of the current quarterly future over the index (e.g. 0.08 = 8% a year)
+ * Binance only serves the last 30 days; the store keeps everything older
+ */
+async function fetchQuarterlyBasis(asset: AssetSpec, since?: string): Promise<FREDData[]> {
+  const history = await getFutures<BinanceBasis>("/futures/data/basis", asset.futuresSymbol, {
+    pair: asset.futuresSymbol,
+    contractType: "CURRENT_QUARTER",
+    period: "1d",
+    limit: 30,
+  });
+  return dailyMean(
+    history.map((point) => ({
+      timestamp: point.timestamp,
+      value: parseFloat(point.annualizedBasisRate),
+    }))
+  ).filter((obs) => !since || obs.date >= since);
+}
+
+/**
+ * Daily observations of a derivatives metric on or after `since`, in chronological order
+ * Not cached: callers read derivatives data through the local store (lib/store), which calls this to sync
+ */
+export function fetchDerivativesMetricSince(
+  asset: AssetSpec,
+  metric: DerivativesMetric,
+  since?: string
+): Promise<FREDData[]> {
+  switch (metric) {
+    case "funding":
+      return fetchFundingRates(asset, since);
+    case "openInterest":
+      return fetchOpenInterest(asset, since);
+    case "basis":
+      return fetchQuarterlyBasis(asset, since);
+  }
+}
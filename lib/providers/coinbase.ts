@@ -0,0 +1,101 @@
+import { AssetSpec, DEFAULT_ASSET } from "../assets";
+import { AssetPrice, Candle } from "../types";
+import { providerCache } from "./cache";
+import { getWithRetry } from "./http";
+
+const PRICE_TTL_MS = 15 * 1000;
+
+// The candles endpoint returns at most this many bars per request
+const MAX_CANDLES_PER_REQUEST = 300;
+
+interface CoinbaseStats {
+  open: string;
+  high: string;
+  low: string;
+  volume: string;
+  last: string;
+  volume_30day: string;
+}
+
+// [time (s), low, high, open, close, volume], newest first
+type CoinbaseCandle = [number, number, number, number, number, number];
+
+export interface AssetStats extends AssetPrice {
+  high24h: number;
+  low24h: number;
+  volume24h: number;
+}
+
+/**
+ * 24h stats for an asset's USD product (BTC-USD by default) from the Coinbase Exchange API
+ */
+export async function fetchAssetStats(asset: AssetSpec = DEFAULT_ASSET): Promise<AssetStats> {
+  const product = asset.coinbaseProduct;
+  return providerCache.getOrLoad(`coinbase:${product}:stats`, PRICE_TTL_MS, async () => {
+    const stats = await getWithRetry<CoinbaseStats>(
+      "Coinbase",
+      `https://api.exchange.coinbase.com/products/${product}/stats`,
+      {},
+      { maxRetries: 2, timeout: 10000 }
+    );
+
+    const currentPrice = parseFloat(stats.last);
+    const openPrice = parseFloat(stats.open);
+
+    return {
+      price: currentPrice,
+      timestamp: Date.now(),
+      change24h: ((currentPrice - openPrice) / openPrice) * 100,
+      high24h: parseFloat(stats.high),
+      low24h: parseFloat(stats.low),
+      volume24h: parseFloat(stats.volume),
+      asset: asset.id,
+    };
+  });
+}
+
+/**
+ * OHLCV candles of an asset between two times (ms) from the Coinbase Exchange API
+ * `granularity` is the candle duration in seconds (60, 300, 900, 3600, 21600 or 86400);
+ * long ranges are fetched page by page. Not cached: used by the store sync
+ */
+export async function fetchAssetCandles(
+  asset: AssetSpec,
+  start: number,
+  end: number,
+  granularity: number = 86400
+): Promise<Candle[]> {
+  const durationMs = granularity * 1000;
+  const pageMs = MAX_CANDLES_PER_REQUEST * durationMs;
+  const candles = new Map<number, Candle>();
+
+  for (let pageStart = start; pageStart < end; pageStart += pageMs) {
+    const pageEnd = Math.min(end, pageStart + pageMs);
+    const page = await getWithRetry<CoinbaseCandle[]>(
+      "Coinbase",
+      `https://api.exchange.coinbase.com/products/${asset.coinbaseProduct}/candles`,
+      {
+        granularity,
+        start: new Date(pageStart).toISOString(),
+        end: new Date(pageEnd).toISOString(),
+      },
+      { maxRetries: 3, timeout: 15000 }
+    );
+
+    for (const [time, low, high, open, close, volume] of page) {
+      const timestamp = time * 1000;
+      candles.set(timestamp, {
+        timestamp,
+        date: new Date(timestamp).toISOString().split("T")[0],
+        durationMs,
+        open,
+        high,
+        low,
+        close,
+        volume,
+      });
+    }
+  }
+
+  return Array.from(candles.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
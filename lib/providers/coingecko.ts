@@ -0,0 +1,60 @@
+import { AssetSpec, DEFAULT_ASSET } from "../assets";
+import { PricePoint } from "../types";
+import { providerCache } from "./cache";
+import { getWithRetry } from "./http";
+
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+export const MAX_HISTORY_DAYS = 365 * 15; // ~15 years (Bitcoin started in 2009)
+
+interface CoinGeckoMarketData {
+  prices: number[][]; // [timestamp, price]
+  market_caps: number[][];
+  total_volumes: number[][];
+}
+
+/**
+ * USD price history of an asset (BTC by default) from CoinGecko (free, goes back to the asset's listing)
+ * Hourly points for windows up to 90 days, daily points beyond that
+ */
+export async function fetchAssetPriceHistory(
+  days: number,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<PricePoint[]> {
+  const key = `coingecko:${asset.coingeckoId}:days=${days}`;
+  return providerCache.getOrLoad(key, HISTORY_TTL_MS, () =>
+    fetchMarketChart(asset, days, days <= 90 ? "hourly" : "daily")
+  );
+}
+
+/**
+ * Daily USD closes of an asset for the last `days` days, regardless of window length
+ * Not cached: used by the store sync
+ */
+export async function fetchAssetDailyHistory(
+  days: number,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<PricePoint[]> {
+  return fetchMarketChart(asset, days, "daily");
+}
+
+async function fetchMarketChart(
+  asset: AssetSpec,
+  days: number,
+  interval: "hourly" | "daily"
+): Promise<PricePoint[]> {
+  const marketData = await getWithRetry<CoinGeckoMarketData>(
+    "CoinGecko",
+    `https://api.coingecko.com/api/v3/coins/${asset.coingeckoId}/market_chart`,
+    {
+      vs_currency: "usd",
+      days: days >= MAX_HISTORY_DAYS ? "max" : days, // 'max' for all historical data
+      interval,
+    }
+  );
+
+  return marketData.prices.map(([timestamp, price]) => ({
+    timestamp,
+    date: new Date(timestamp).toISOString().split("T")[0],
+    price,
+  }));
+}
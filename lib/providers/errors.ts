@@ -0,0 +1,33 @@
+/**
+ * Error raised by any upstream data provider (FRED, Coinbase, CoinGecko)
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = true
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * The provider rejected the request because of rate limiting (HTTP 429)
+ */
+export class RateLimitError extends ProviderError {
+  constructor(provider: string) {
+    super(`${provider} API rate limit exceeded. Please try again in a moment.`, provider, 429);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * HTTP status a route should answer with for an error thrown while loading data
+ */
+export function httpStatusFor(error: unknown): number {
+  if (error instanceof RateLimitError) return 429;
+  if (error instanceof ProviderError) return 502;
+  return 500;
+}
@@ -0,0 +1,157 @@
+import { AssetSpec } from "../assets";
+import { providerCache } from "./cache";
+import { fetchAssetStats } from "./coinbase";
+import { ProviderError } from "./errors";
+import { getWithRetry } from "./http";
+
+const QUOTE_TTL_MS = 15 * 1000;
+
+// Spot prices fail over quickly to the other venues rather than retrying a slow one
+const QUOTE_REQUEST = { maxRetries: 2, timeout: 10000 };
+
+/**
+ * Last price and 24h volume of an asset on one exchange
+ */
+export interface ExchangeQuote {
+  exchange: string;
+  price: number;
+  volume24h: number; // base asset
+  open24h?: number; // price 24h ago, when the venue reports it
+  timestamp: number;
+}
+
+/**
+ * A spot venue the price aggregator queries
+ */
+export interface ExchangeAdapter {
+  name: string;
+  fetchQuote(asset: AssetSpec): Promise<ExchangeQuote>;
+}
+
+interface KrakenTicker {
+  error: string[];
+  result: Record<string, { c: [string, string]; v: [string, string] }>;
+}
+
+interface BitstampTicker {
+  last: string;
+  volume: string;
+  open_24h: string;
+  timestamp: string; // seconds
+}
+
+interface BinanceTicker {
+  lastPrice: string;
+  openPrice: string;
+  volume: string;
+  closeTime: number;
+}
+
+function parsePrice(exchange: string, value: string | undefined): number {
+  const price = parseFloat(value ?? "");
+  if (!(price > 0)) {
+    throw new ProviderError(`${exchange} returned no price`, exchange, undefined, false);
+  }
+  return price;
+}
+
+const coinbase: ExchangeAdapter = {
+  name: "Coinbase",
+  async fetchQuote(asset) {
+    const stats = await fetchAssetStats(asset);
+    return {
+      exchange: "Coinbase",
+      price: stats.price,
+      volume24h: stats.volume24h,
+      ...(stats.change24h !== undefined && isFinite(stats.change24h)
+        ? { open24h: stats.price / (1 + stats.change24h / 100) }
+        : {}),
+      timestamp: stats.timestamp,
+    };
+  },
+};
+
+const kraken: ExchangeAdapter = {
+  name: "Kraken",
+  fetchQuote(asset) {
+    return providerCache.getOrLoad(`kraken:${asset.krakenPair}:ticker`, QUOTE_TTL_MS, async () => {
+      const ticker = await getWithRetry<KrakenTicker>(
+        "Kraken",
+        "https://api.kraken.com/0/public/Ticker",
+        { pair: asset.krakenPair },
+        QUOTE_REQUEST
+      );
+      // Errors come back with HTTP 200; results are keyed by Kraken's own pair name (XXBTZUSD)
+      const pair = Object.values(ticker.result ?? {})[0];
+      if (ticker.error?.length > 0 || !pair) {
+        const message = ticker.error?.join(", ") || "no ticker";
+        throw new ProviderError(`Kraken request failed: ${message}`, "Kraken", undefined, false);
+      }
+      return {
+        exchange: "Kraken",
+        price: parsePrice("Kraken", pair.c[0]),
+        // The ticker's open is today's (UTC), not 24h ago, so Kraken is left out of the change
+        volume24h: parseFloat(pair.v[1]),
+        timestamp: Date.now(),
+      };
+    });
+  },
+};
+
+const bitstamp: ExchangeAdapter = {
+  name: "Bitstamp",
+  fetchQuote(asset) {
+    const pair = asset.bitstampPair;
+    return providerCache.getOrLoad(`bitstamp:${pair}:ticker`, QUOTE_TTL_MS, async () => {
+      const ticker = await getWithRetry<BitstampTicker>(
+        "Bitstamp",
+        `https://www.bitstamp.net/api/v2/ticker/${pair}/`,
+        {},
+        QUOTE_REQUEST
+      );
+      return {
+        exchange: "Bitstamp",
+        price: parsePrice("Bitstamp", ticker.last),
+        volume24h: parseFloat(ticker.volume),
+        open24h: parseFloat(ticker.open_24h),
+        timestamp: parseInt(ticker.timestamp, 10) * 1000 || Date.now(),
+      };
+    });
+  },
+};
+
+// Binance has no USD spot market; USDT is taken at par
+const binance: ExchangeAdapter = {
+  name: "Binance",
+  fetchQuote(asset) {
+    const symbol = asset.spotSymbol;
+    return providerCache.getOrLoad(`binance:${symbol}:ticker`, QUOTE_TTL_MS, async () => {
+      const ticker = await getWithRetry<BinanceTicker>(
+        "Binance",
+        "https://api.binance.com/api/v3/ticker/24hr",
+        { symbol },
+        QUOTE_REQUEST
+      );
+      return {
+        exchange: "Binance",
+        price: parsePrice("Binance", ticker.lastPrice),
+        volume24h: parseFloat(ticker.volume),
+        open24h: parseFloat(ticker.openPrice),
+        timestamp: ticker.closeTime || Date.now(),
+      };
+    });
+  },
+};
+
+export const EXCHANGE_ADAPTERS: ExchangeAdapter[] = [coinbase, kraken, bitstamp, binance];
+
+/**
+ * Quotes for an asset from every exchange at once
+ * Each venue settles on its own, so one outage only drops that venue's quote
+ */
+export async function fetchExchangeQuotes(
+  asset: AssetSpec,
+  adapters: ExchangeAdapter[] = EXCHANGE_ADAPTERS
+): Promise<PromiseSettledResult<ExchangeQuote>[]> {
+  return Promise.allSettled(adapters.map((adapter) => adapter.fetchQuote(asset)));
+}
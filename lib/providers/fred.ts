@@ -0,0 +1,118 @@
+import { FREDData, FREDVintageObservation } from "../types";
+import { ProviderError } from "./errors";
+import { getWithRetry } from "./http";
+
+// Users need to get their own key from https://fred.stlouisfed.org/docs/api/api_key.html
+const FRED_API_KEY = process.env.FRED_API_KEY || "demo";
+
+// The demo key is heavily rate limited; data fetched with it may be incomplete
+export const USING_DEMO_FRED_KEY = FRED_API_KEY === "demo";
+
+interface FREDObservation {
+  realtime_start: string;
+  realtime_end: string;
+  date: string;
+  value: string;
+}
+
+// ALFRED's full real-time range: every vintage ever published
+const REALTIME_ORIGIN = "1776-07-04";
+const REALTIME_CURRENT = "9999-12-31";
+
+interface FREDResponse {
+  observations: FREDObservation[];
+}
+
+/**
+ * Fetch every observation of a FRED series on or after `observationStart`
+ * (the full history when omitted), in chronological order
+ * Not cached: callers read FRED through the local store (lib/store), which calls this to sync
+ */
+export async function fetchFREDObservationsSince(
+  seriesId: string,
+  observationStart?: string
+): Promise<FREDData[]> {
+  const data = await getWithRetry<FREDResponse>(
+    "FRED",
+    "https://api.stlouisfed.org/fred/series/observations",
+    {
+      series_id: seriesId,
+      api_key: FRED_API_KEY,
+      file_type: "json",
+      sort_order: "asc",
+      ...(observationStart ? { observation_start: observationStart } : {}),
+    }
+  );
+
+  return data.observations
+    .filter((obs) => obs.value !== ".")
+    .map((obs) => ({
+      date: obs.date,
+      value: parseFloat(obs.value),
+    }));
+}
+
+/**
+ * Every vintage of a FRED series' observations published between `realtimeStart` and
+ * `realtimeEnd` (ALFRED), ordered by date and then vintage
+ * A revised observation appears once per value it has had, each with its real-time period
+ * Not cached: callers read vintages through the local store (lib/store), which calls this to sync
+ */
+export async function fetchFREDVintages(
+  seriesId: string,
+  realtimeStart: string = REALTIME_ORIGIN,
+  realtimeEnd: string = REALTIME_CURRENT
+): Promise<FREDVintageObservation[]> {
+  const data = await getWithRetry<FREDResponse>(
+    "FRED",
+    "https://api.stlouisfed.org/fred/series/observations",
+    {
+      series_id: seriesId,
+      api_key: FRED_API_KEY,
+      file_type: "json",
+      sort_order: "asc",
+      realtime_start: realtimeStart,
+      realtime_end: realtimeEnd,
+    }
+  );
+
+  return data.observations
+    .filter((obs) => obs.value !== ".")
+    .map((obs) => ({
+      date: obs.date,
+      value: parseFloat(obs.value),
+      realtimeStart: obs.realtime_start,
+      realtimeEnd: obs.realtime_end,
+    }))
+    .sort(
+      (a, b) => a.date.localeCompare(b.date) || a.realtimeStart.localeCompare(b.realtimeStart)
+    );
+}
+
+export interface FREDSeriesInfo {
+  id: string;
+  title: string;
+  units: string;
+  frequency: string;
+}
+
+interface FREDSeriesResponse {
+  seriess: FREDSeriesInfo[];
+}
+
+/**
+ * Title, units and frequency of a FRED series, from FRED's series endpoint
+ */
+export async function fetchFREDSeriesInfo(seriesId: string): Promise<FREDSeriesInfo> {
+  const data = await getWithRetry<FREDSeriesResponse>(
+    "FRED",
+    "https://api.stlouisfed.org/fred/series",
+    { series_id: seriesId, api_key: FRED_API_KEY, file_type: "json" }
+  );
+
+  const info = data.seriess?.[0];
+  if (!info) {
+    throw new ProviderError(`FRED has no series ${seriesId}`, "FRED", 404, false);
+  }
+  return { id: info.id, title: info.title, units: info.units, frequency: info.frequency };
+}
@@ -0,0 +1,52 @@
+import axios, { AxiosError } from "axios";
+import { ProviderError, RateLimitError } from "./errors";
+
+export interface RetryOptions {
+  maxRetries?: number;
+  timeout?: number; // per attempt, in ms
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * GET a JSON resource with retry and backoff
+ * Rate limits (429) back off longer (5s, 10s, ...) than other failures (1s, 2s, ...);
+ * client errors other than 429 are not retried. Failures surface as ProviderError
+ */
+export async function getWithRetry<T>(
+  provider: string,
+  url: string,
+  params: Record<string, string | number> = {},
+  { maxRetries = 3, timeout = 30000 }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const response = await axios.get<T>(url, { params, timeout });
+      return response.data;
+    } catch (error: unknown) {
+      const status = (error as AxiosError).response?.status;
+      const isLastAttempt = attempt === maxRetries;
+
+      if (status === 429) {
+        if (isLastAttempt) throw new RateLimitError(provider);
+        const waitTime = 5000 * attempt; // 5s, 10s, 15s
+        console.log(`${provider} rate limit hit, waiting ${waitTime}ms before retry ${attempt + 1}`);
+        await wait(waitTime);
+        continue;
+      }
+
+      const retryable = status === undefined || status >= 500;
+      if (isLastAttempt || !retryable) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new ProviderError(`${provider} request failed: ${message}`, provider, status, retryable);
+      }
+
+      // Wait before retrying (linear backoff)
+      await wait(1000 * attempt);
+      console.log(`Retry attempt ${attempt + 1} for ${provider}`);
+    }
+  }
+  throw new ProviderError(`${provider} request failed: max retries exceeded`, provider);
+}
@@ -0,0 +1,32 @@
+export * from "./errors";
+export { providerCache } from "./cache";
+export {
+  fetchFREDObservationsSince,
+  fetchFREDSeriesInfo,
+  fetchFREDVintages,
+  USING_DEMO_FRED_KEY,
+} from "./fred";
+export type { FREDSeriesInfo } from "./fred";
+export {
+  fetchOnChainMetricSince,
+  ONCHAIN_METRICS,
+  ONCHAIN_PROVIDER_NAME,
+} from "./onchain";
+export type { OnChainMetric } from "./onchain";
+export {
+  fetchDerivativesMetricSince,
+  DERIVATIVES_METRICS,
+  DERIVATIVES_PROVIDER_NAME,
+} from "./binance-futures";
+export type { DerivativesMetric } from "./binance-futures";
+export { fetchAssetStats, fetchAssetCandles } from "./coinbase";
+export type { AssetStats } from "./coinbase";
+export { EXCHANGE_ADAPTERS, fetchExchangeQuotes } from "./exchanges";
+export type { ExchangeAdapter, ExchangeQuote } from "./exchanges";
+export {
+  fetchAssetPriceHistory,
+  fetchAssetDailyHistory,
+  MAX_HISTORY_DAYS,
+} from "./coingecko";
+export { subscribeTicker, TICKER_PROVIDER_NAME } from "./ticker";
+export type { TickerHandlers } from "./ticker";
@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { FREDData } from "../types";
+import { ProviderError } from "./errors";
+import { getWithRetry } from "./http";
+
+export type OnChainMetric =
+  | "mvrvZScore"
+  | "exchangeNetFlow"
+  | "activeAddresses"
+  | "hashRate"
+  | "sopr";
+
+// Glassnode endpoint of each metric (daily resolution, BTC)
+const GLASSNODE_PATHS: Record<OnChainMetric, string> = {
+  mvrvZScore: "market/mvrv_z_score",
+  exchangeNetFlow: "transactions/transfers_volume_exchanges_net",
+  activeAddresses: "addresses/active_count",
+  hashRate: "mining/hash_rate_mean",
+  sopr: "indicators/sopr",
+};
+
+export const ONCHAIN_METRICS = Object.keys(GLASSNODE_PATHS) as OnChainMetric[];
+
+/**
+ * Source of daily on-chain metrics
+ */
+interface OnChainProvider {
+  name: string;
+  // Observations on or after `since` (the full history when omitted), in chronological order
+  fetchMetric(metric: OnChainMetric, since?: string): Promise<FREDData[]>;
+}
+
+interface GlassnodePoint {
+  t: number; // seconds
+  v: number | null;
+}
+
+const ONCHAIN_API_KEY = process.env.ONCHAIN_API_KEY;
+const ONCHAIN_API_URL = process.env.ONCHAIN_API_URL || "https://api.glassnode.com/v1/metrics";
+
+const glassnodeProvider: OnChainProvider = {
+  name: "glassnode",
+  async fetchMetric(metric, since) {
+    if (!ONCHAIN_API_KEY) {
+      throw new ProviderError(
+        "Glassnode request failed: ONCHAIN_API_KEY is not set",
+        "Glassnode",
+        undefined,
+        false
+      );
+    }
+    const data = await getWithRetry<GlassnodePoint[]>(
+      "Glassnode",
+      `${ONCHAIN_API_URL}/${GLASSNODE_PATHS[metric]}`,
+      {
+        a: "BTC",
+        i: "24h",
+        api_key: ONCHAIN_API_KEY,
+        ...(since ? { s: Math.floor(new Date(since).getTime() / 1000) } : {}),
+      }
+    );
+
+    return data
+      .filter(
+        (point): point is { t: number; v: number } =>
+          typeof point.v === "number" && isFinite(point.v)
+      )
+      .map((point) => ({
+        date: new Date(point.t * 1000).toISOString().split("T")[0],
+        value: point.v,
+      }));
+  },
+};
+
+// Checked-in sample data (see fixtures/onchain); not real market data
+const ONCHAIN_FIXTURES_DIR =
+  process.env.ONCHAIN_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "onchain");
+
+/**
+ * Local stand-in for development: one `<metric>.json` file of `{ date, value }` observations per metric
+ */
+const fileProvider: OnChainProvider = {
+  name: "file",
+  async fetchMetric(metric, since) {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(ONCHAIN_FIXTURES_DIR, `${metric}.json`), "utf8");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new ProviderError(
+        `On-chain fixture for ${metric} could not be read: ${message}`,
+        "file",
+        undefined,
+        false
+      );
+    }
+    return (JSON.parse(raw) as FREDData[])
+      .filter((obs) => !since || obs.date >= since)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  },
+};
+
+const PROVIDERS: Record<string, OnChainProvider> = {
+  glassnode: glassnodeProvider,
+  file: fileProvider,
+};
+
+function selectProvider(): OnChainProvider {
+  const name = process.env.ONCHAIN_PROVIDER || "glassnode";
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown ONCHAIN_PROVIDER "${name}", using Glassnode`);
+    return glassnodeProvider;
+  }
+  return provider;
+}
+
+// Glassnode (which needs ONCHAIN_API_KEY); the sample fixtures only with ONCHAIN_PROVIDER=file
+const onChainProvider = selectProvider();
+
+export const ONCHAIN_PROVIDER_NAME = onChainProvider.name;
+
+/**
+ * Fetch every daily observation of an on-chain metric on or after `since` from the configured provider
+ * Not cached: callers read on-chain data through the local store (lib/store), which calls this to sync
+ */
+export function fetchOnChainMetricSince(
+  metric: OnChainMetric,
+  since?: string
+): Promise<FREDData[]> {
+  return onChainProvider.fetchMetric(metric, since);
+}
@@ -0,0 +1,190 @@
+import { promises as fs } from "fs";
+import path from "path";
+import WebSocket from "ws";
+import { AssetSpec } from "../assets";
+import { AssetPrice, LiveStreamStatus } from "../types";
+
+// "coinbase" streams the Coinbase Exchange ticker; "replay" plays back recorded ticker messages
+export const TICKER_PROVIDER_NAME =
+  process.env.TICKER_PROVIDER === "replay" ? "replay" : "coinbase";
+
+const COINBASE_WS_URL = "wss://ws-feed.exchange.coinbase.com";
+
+const TICKER_FIXTURES_DIR =
+  process.env.TICKER_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "ticker");
+
+// Reconnects back off exponentially up to this delay
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+interface CoinbaseTickerMessage {
+  type: string;
+  product_id?: string;
+  price?: string;
+  open_24h?: string;
+  time?: string;
+  message?: string; // error messages
+}
+
+export interface TickerHandlers {
+  onTick: (price: AssetPrice) => void;
+  onStatus: (status: LiveStreamStatus) => void;
+}
+
+function toAssetPrice(message: CoinbaseTickerMessage, asset: AssetSpec): AssetPrice | null {
+  const price = parseFloat(message.price ?? "");
+  if (!isFinite(price)) return null;
+  const open = parseFloat(message.open_24h ?? "");
+  return {
+    price,
+    timestamp: message.time ? Date.parse(message.time) : Date.now(),
+    ...(open > 0 ? { change24h: ((price - open) / open) * 100 } : {}),
+    asset: asset.id,
+  };
+}
+
+/**
+ * Coinbase Exchange ticker channel over WebSocket, reconnecting until closed
+ */
+function openCoinbaseTicker(asset: AssetSpec, handlers: TickerHandlers): () => void {
+  const product = asset.coinbaseProduct;
+  let socket: WebSocket | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let failures = 0;
+  let closed = false;
+
+  const connect = () => {
+    handlers.onStatus(failures === 0 ? "connecting" : "reconnecting");
+    const ws = new WebSocket(COINBASE_WS_URL);
+    socket = ws;
+
+    ws.on("open", () => {
+      ws.send(JSON.stringify({ type: "subscribe", product_ids: [product], channels: ["ticker"] }));
+    });
+    ws.on("message", (raw) => {
+      let message: CoinbaseTickerMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (message.type === "subscriptions") {
+        failures = 0;
+        handlers.onStatus("live");
+      } else if (message.type === "ticker" && message.product_id === product) {
+        const tick = toAssetPrice(message, asset);
+        if (tick) handlers.onTick(tick);
+      } else if (message.type === "error") {
+        console.warn(`Coinbase ticker error for ${product}: ${message.message}`);
+      }
+    });
+    // A close event always follows, which schedules the reconnect
+    ws.on("error", (error) => {
+      console.warn(`Coinbase ticker connection for ${product} failed:`, error);
+    });
+    ws.on("close", () => {
+      socket = null;
+      if (closed) return;
+      failures++;
+      handlers.onStatus("reconnecting");
+      const delay = Math.min(1000 * 2 ** (failures - 1), MAX_RECONNECT_DELAY_MS);
+      retryTimer = setTimeout(connect, delay);
+    });
+  };
+
+  connect();
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    socket?.close();
+  };
+}
+
+/**
+ * Local stand-in for tests and offline work: `<product>.json` in fixtures/ticker holds recorded
+ * ticker messages, played back in a loop with their recorded spacing and the current time
+ */
+function openReplayTicker(asset: AssetSpec, handlers: TickerHandlers): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  handlers.onStatus("connecting");
+  fs.readFile(path.join(TICKER_FIXTURES_DIR, `${asset.coinbaseProduct}.json`), "utf8")
+    .then((raw) => {
+      const messages = (JSON.parse(raw) as CoinbaseTickerMessage[]).filter(
+        (message) => message.type === "ticker"
+      );
+      if (closed || messages.length === 0) return;
+      handlers.onStatus("live");
+
+      let i = 0;
+      const playNext = () => {
+        const message = messages[i % messages.length];
+        const next = messages[(i + 1) % messages.length];
+        i++;
+        const tick = toAssetPrice(message, asset);
+        if (tick) handlers.onTick({ ...tick, timestamp: Date.now() });
+
+        // Wrapping around to the first message waits a second
+        const gap = Date.parse(next.time ?? "") - Date.parse(message.time ?? "");
+        timer = setTimeout(playNext, gap > 0 ? gap : 1000);
+      };
+      playNext();
+    })
+    .catch((error: unknown) => {
+      console.error(`Ticker replay for ${asset.coinbaseProduct} could not be read:`, error);
+      if (!closed) handlers.onStatus("closed");
+    });
+
+  return () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+interface TickerFeed {
+  subscribers: Set<TickerHandlers>;
+  status: LiveStreamStatus;
+  last: AssetPrice | null;
+  close: () => void;
+}
+
+const feeds = new Map<string, TickerFeed>();
+
+/**
+ * Subscribe to an asset's streaming ticker from the configured provider
+ * Subscribers of an asset share one upstream connection, opened with the first subscription
+ * and closed with the last; a new subscriber gets the current status and last tick right away
+ */
+export function subscribeTicker(asset: AssetSpec, handlers: TickerHandlers): () => void {
+  let feed = feeds.get(asset.id);
+  if (!feed) {
+    const subscribers = new Set<TickerHandlers>();
+    const created: TickerFeed = { subscribers, status: "connecting", last: null, close: () => {} };
+    const open = TICKER_PROVIDER_NAME === "replay" ? openReplayTicker : openCoinbaseTicker;
+    created.close = open(asset, {
+      onTick: (price) => {
+        created.last = price;
+        subscribers.forEach((subscriber) => subscriber.onTick(price));
+      },
+      onStatus: (status) => {
+        created.status = status;
+        subscribers.forEach((subscriber) => subscriber.onStatus(status));
+      },
+    });
+    feeds.set(asset.id, created);
+    feed = created;
+  }
+
+  feed.subscribers.add(handlers);
+  handlers.onStatus(feed.status);
+  if (feed.last) handlers.onTick(feed.last);
+
+  const current = feed;
+  return () => {
+    current.subscribers.delete(handlers);
+    if (current.subscribers.size === 0) {
+      current.close();
+      feeds.delete(asset.id);
+    }
+  };
+}
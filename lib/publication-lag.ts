@@ -0,0 +1,54 @@
+/**
+ * Publication lag rules for the series the index consumes
+ * An observation is only usable from the date it was actually published,
+ * which is often later than the date the observation is stamped with
+ */
+
+type LagRule = (observationDate: string) => string;
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days (UTC)
+ */
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * First weekday of the month following the observation date
+ * Holidays are ignored, which at worst makes a print usable one day early
+ */
+function firstBusinessDayOfNextMonth(observationDate: string): string {
+  const d = new Date(`${observationDate}T00:00:00Z`);
+  const next = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1));
+  while (next.getUTCDay() === 0 || next.getUTCDay() === 6) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next.toISOString().split("T")[0];
+}
+
+const LAG_RULES: Record<string, LagRule> = {
+  // H.4.1 is released Thursday afternoon for the week ending the prior Wednesday
+  WALCL: (date) => shiftDate(date, 1),
+  WTREGEN: (date) => shiftDate(date, 1),
+  // ON RRP results are published the same afternoon
+  RRPONTSYD: (date) => date,
+  // ISM prints the month's PMI on the first business day of the next month
+  NAPM: firstBusinessDayOfNextMonth,
+  // The Eurosystem weekly financial statement for the week ending Friday comes out the next Tuesday
+  ECBASSETSW: (date) => shiftDate(date, 4),
+  // BoJ monthly accounts are published a few business days into the next month
+  JPNASSETS: (date) => shiftDate(firstBusinessDayOfNextMonth(date), 3),
+  // China's FX reserves are announced around the 7th of the following month
+  TRESEGCNM052N: (date) => shiftDate(firstBusinessDayOfNextMonth(date), 6),
+};
+
+/**
+ * Date from which an observation of the given series was publicly known
+ * Unknown series are assumed to be available on their observation date
+ */
+export function getAvailabilityDate(seriesId: string, observationDate: string): string {
+  const rule = LAG_RULES[seriesId];
+  return rule ? rule(observationDate) : observationDate;
+}
@@ -0,0 +1,9 @@
+export { REFRESH_SOURCES } from "./sources";
+export type { RefreshSource } from "./sources";
+export { getRefreshStatus } from "./store";
+export {
+  isRefreshDue,
+  runDueRefreshes,
+  startRefreshWorker,
+  stopRefreshWorker,
+} from "./scheduler";
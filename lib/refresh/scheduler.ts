@@ -0,0 +1,107 @@
+import { REFRESH_WORKER_ENABLED } from "../store";
+import { RefreshSource, REFRESH_SOURCES } from "./sources";
+import { readRefreshStatus, StoredRefreshStatus, writeRefreshStatus } from "./store";
+
+// Due sources are checked every minute, the shortest cadence
+const TICK_MS = 60 * 1000;
+// A failed source, or a release that hasn't shown up yet, is retried at most this often
+const RETRY_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let statuses: Record<string, StoredRefreshStatus> | null = null;
+let statusWrite: Promise<void> = Promise.resolve();
+const running = new Set<string>();
+
+/**
+ * Whether a source should be refreshed at `now`, given its last refresh
+ */
+export function isRefreshDue(
+  source: RefreshSource,
+  status: StoredRefreshStatus | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!status?.lastAttemptAt) return true;
+  if (now - status.lastAttemptAt < Math.min(source.cadenceMs, RETRY_MS)) return false;
+  if (status.lastError || !status.lastSuccessAt) return true;
+  if (now - status.lastSuccessAt >= source.cadenceMs) return true;
+
+  // The next observation should be public, but the last refresh didn't have it yet
+  const today = new Date(now).toISOString().split("T")[0];
+  return Boolean(
+    source.nextRelease && status.lastDate && today >= source.nextRelease(status.lastDate)
+  );
+}
+
+async function refreshSource(
+  source: RefreshSource,
+  statuses: Record<string, StoredRefreshStatus>,
+  now: number
+): Promise<void> {
+  const previous = statuses[source.id];
+  const attempt: StoredRefreshStatus = {
+    id: source.id,
+    lastSuccessAt: previous?.lastSuccessAt ?? null,
+    lastDate: previous?.lastDate ?? null,
+    lastError: previous?.lastError ?? null,
+    lastAttemptAt: now,
+  };
+
+  running.add(source.id);
+  try {
+    const results = await source.refresh();
+    const lastDates = results.flatMap((result) => (result.lastDate ? [result.lastDate] : []));
+    statuses[source.id] = {
+      ...attempt,
+      lastSuccessAt: Date.now(),
+      lastError: null,
+      lastDate: lastDates.sort()[lastDates.length - 1] ?? attempt.lastDate,
+    };
+  } catch (error: unknown) {
+    console.error(`Refresh of ${source.id} failed:`, error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    statuses[source.id] = { ...attempt, lastError: message };
+  } finally {
+    running.delete(source.id);
+  }
+
+  // Writes are chained so two sources finishing together don't race on the status file
+  statusWrite = statusWrite
+    .then(() => writeRefreshStatus(statuses))
+    .catch((error) => console.error("Saving the refresh status failed:", error));
+  await statusWrite;
+}
+
+/**
+ * Refresh every due source that isn't still running from an earlier check
+ */
+export async function runDueRefreshes(now: number = Date.now()): Promise<void> {
+  // Loaded once, so a restart picks up where the previous process left off
+  statuses ??= await readRefreshStatus();
+  const current = statuses;
+  const due = REFRESH_SOURCES.filter(
+    (source) => !running.has(source.id) && isRefreshDue(source, current[source.id], now)
+  );
+  await Promise.all(due.map((source) => refreshSource(source, current, now)));
+}
+
+/**
+ * Keep every source in the store fresh from the server process, each on its own cadence
+ * REFRESH_WORKER=0 disables the worker (routes then sync stale series themselves)
+ */
+export function startRefreshWorker(): void {
+  if (timer || !REFRESH_WORKER_ENABLED) return;
+
+  const run = () => {
+    runDueRefreshes().catch((error) => console.error("Scheduled refresh failed:", error));
+  };
+
+  timer = setInterval(run, TICK_MS);
+  // Don't keep the process alive just for refreshes
+  timer.unref();
+  run();
+}
+
+export function stopRefreshWorker(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,139 @@
+import { ASSETS } from "../assets";
+import { getAvailabilityDate, shiftDate } from "../publication-lag";
+import { DERIVATIVES_METRICS, ONCHAIN_METRICS } from "../providers";
+import {
+  assetPriceKey,
+  cacheAssetPrice,
+  fredKey,
+  listSeriesKeys,
+  syncAssetCandles,
+  syncAssetHistory,
+  syncDerivativesMetric,
+  syncFREDSeries,
+  syncFREDVintages,
+  syncOnChainMetric,
+  SyncResult,
+} from "../store";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+type Frequency = "daily" | "weekly" | "monthly";
+
+/**
+ * One upstream source the worker keeps fresh in the store
+ */
+export interface RefreshSource {
+  id: string;
+  label: string;
+  cadence: string;
+  cadenceMs: number; // refreshed at least this often
+  // Released series: date the observation after `lastDate` should be public; from then
+  // the source is retried (hourly at most) until it shows up, instead of waiting a full cadence
+  nextRelease?: (lastDate: string) => string;
+  refresh: () => Promise<SyncResult[]>;
+}
+
+const CADENCE_MS: Record<Frequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 31 * DAY_MS,
+};
+
+/**
+ * Date of the observation after `date` in a series of the given frequency
+ * Daily series skip weekends, when markets publish nothing
+ */
+function nextObservationDate(date: string, frequency: Frequency): string {
+  if (frequency === "weekly") return shiftDate(date, 7);
+  if (frequency === "monthly") {
+    const d = new Date(`${date}T00:00:00Z`);
+    const next = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1));
+    return next.toISOString().split("T")[0];
+  }
+  let next = shiftDate(date, 1);
+  while ([0, 6].includes(new Date(`${next}T00:00:00Z`).getUTCDay())) {
+    next = shiftDate(next, 1);
+  }
+  return next;
+}
+
+function fredSource(seriesId: string, label: string, frequency: Frequency): RefreshSource {
+  return {
+    id: fredKey(seriesId),
+    label,
+    cadence: frequency,
+    cadenceMs: CADENCE_MS[frequency],
+    nextRelease: (lastDate) =>
+      getAvailabilityDate(seriesId, nextObservationDate(lastDate, frequency)),
+    refresh: async () => [await syncFREDSeries(seriesId)],
+  };
+}
+
+// Series with a source of their own; other stored FRED series are refreshed together daily
+const SCHEDULED_FRED_SERIES = ["WALCL", "WTREGEN", "RRPONTSYD", "NAPM"];
+
+export const REFRESH_SOURCES: RefreshSource[] = [
+  ...ASSETS.map(
+    (asset): RefreshSource => ({
+      id: assetPriceKey(asset),
+      label: `${asset.symbol} price`,
+      cadence: "every minute",
+      cadenceMs: MINUTE_MS,
+      refresh: async () => {
+        const price = await cacheAssetPrice(asset);
+        const date = new Date(price.timestamp).toISOString().split("T")[0];
+        return [{ key: assetPriceKey(asset), fetched: 1, total: 1, lastDate: date }];
+      },
+    })
+  ),
+  ...ASSETS.map(
+    (asset): RefreshSource => ({
+      id: `history/${asset.id}`,
+      label: `${asset.symbol} daily closes and candles`,
+      cadence: "hourly",
+      cadenceMs: HOUR_MS,
+      refresh: () => Promise.all([syncAssetHistory(asset), syncAssetCandles(asset)]),
+    })
+  ),
+  fredSource("RRPONTSYD", "Reverse Repo", "daily"),
+  fredSource("WALCL", "Fed Balance Sheet", "weekly"),
+  fredSource("WTREGEN", "Treasury General Account", "weekly"),
+  fredSource("NAPM", "ISM Manufacturing PMI", "monthly"),
+  {
+    id: "fred/other",
+    label: "Other stored FRED series and vintages",
+    cadence: "daily",
+    cadenceMs: DAY_MS,
+    refresh: async () => {
+      const scheduled = SCHEDULED_FRED_SERIES.map(fredKey);
+      const keys = await listSeriesKeys();
+      return Promise.all(
+        keys.flatMap((key) => {
+          const [prefix, seriesId] = key.split("/");
+          if (prefix === "fred" && !scheduled.includes(key)) return [syncFREDSeries(seriesId)];
+          if (prefix === "alfred") return [syncFREDVintages(seriesId)];
+          return [];
+        })
+      );
+    },
+  },
+  ...ASSETS.map(
+    (asset): RefreshSource => ({
+      id: `derivatives/${asset.id}`,
+      label: `${asset.symbol} funding, open interest and basis`,
+      cadence: "hourly",
+      cadenceMs: HOUR_MS,
+      refresh: () =>
+        Promise.all(DERIVATIVES_METRICS.map((metric) => syncDerivativesMetric(asset, metric))),
+    })
+  ),
+  {
+    id: "onchain",
+    label: "On-chain metrics",
+    cadence: "daily",
+    cadenceMs: DAY_MS,
+    refresh: () => Promise.all(ONCHAIN_METRICS.map((metric) => syncOnChainMetric(metric))),
+  },
+];
@@ -0,0 +1,38 @@
+import { readJSON, writeJSON } from "../store/files";
+import { RefreshSourceStatus } from "../types";
+import { REFRESH_SOURCES } from "./sources";
+
+// Written by the worker, read by the status endpoint (which may run in another bundle or process)
+const STATUS_FILE = "refresh/status.json";
+
+export type StoredRefreshStatus = Omit<RefreshSourceStatus, "label" | "cadence" | "overdue">;
+
+export async function readRefreshStatus(): Promise<Record<string, StoredRefreshStatus>> {
+  return (await readJSON<Record<string, StoredRefreshStatus>>(STATUS_FILE)) ?? {};
+}
+
+export async function writeRefreshStatus(
+  statuses: Record<string, StoredRefreshStatus>
+): Promise<void> {
+  await writeJSON(STATUS_FILE, statuses);
+}
+
+/**
+ * Last refresh of every source, including sources that haven't run yet
+ */
+export async function getRefreshStatus(now: number = Date.now()): Promise<RefreshSourceStatus[]> {
+  const stored = await readRefreshStatus();
+  return REFRESH_SOURCES.map((source) => {
+    const status = stored[source.id];
+    return {
+      id: source.id,
+      label: source.label,
+      cadence: source.cadence,
+      lastAttemptAt: status?.lastAttemptAt ?? null,
+      lastSuccessAt: status?.lastSuccessAt ?? null,
+      lastError: status?.lastError ?? null,
+      lastDate: status?.lastDate ?? null,
+      overdue: !status?.lastSuccessAt || now - status.lastSuccessAt > 2 * source.cadenceMs,
+    };
+  });
+}
@@ -0,0 +1,9 @@
+export {
+  loadScenarioContext,
+  applyScenario,
+  runScenario,
+  runScenarios,
+  validateScenarioOverrides,
+} from "./model";
+export type { ScenarioContext } from "./model";
+export { listScenarios, getScenario, saveScenario, deleteScenario } from "./store";
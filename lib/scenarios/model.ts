@@ -0,0 +1,249 @@
+import { candlesFromPrices, candlesWithin, DAY_MS } from "../candles";
+import {
+  CORE_FACTOR_IDS,
+  getFactor,
+  toFactorSeries,
+  trendLookbackDays,
+  weightedFactorIds,
+} from "../factors";
+import { calculateBitcoinDirectionIndex, FactorInputs } from "../index-calculation";
+import { fetchIndexHistoryInputs } from "../index-history";
+import { getIndexProfile } from "../index-profiles";
+import {
+  buildLiquidityEntries,
+  GLOBAL_LIQUIDITY_COMPONENTS,
+  liquidityComponents,
+  LiquidityEntry,
+  toLiquidityData,
+  US_LIQUIDITY_COMPONENTS,
+} from "../liquidity";
+import { toPMIData } from "../pmi";
+import { getAvailabilityDate } from "../publication-lag";
+import { getAssetPrice } from "../store";
+import {
+  AssetPrice,
+  Candle,
+  IndexConfig,
+  ISMPMIData,
+  Scenario,
+  ScenarioAdjustment,
+  ScenarioOverrides,
+  ScenarioResult,
+  ScenarioState,
+} from "../types";
+
+/**
+ * The latest readings every scenario under one profile is applied to
+ */
+export interface ScenarioContext {
+  config: IndexConfig;
+  asOf: string;
+  liquidityEntries: LiquidityEntry[]; // readings public by asOf, oldest first
+  pmi: ISMPMIData;
+  pmiHistory: number[];
+  btcPrice: AssetPrice;
+  candles: Candle[];
+  extraInputs: FactorInputs;
+}
+
+/**
+ * Gather the inputs the live index uses (same point-in-time rules as the history replay)
+ */
+export async function loadScenarioContext(config: IndexConfig): Promise<ScenarioContext> {
+  const [inputs, btcPrice] = await Promise.all([
+    fetchIndexHistoryInputs(365, config),
+    getAssetPrice(),
+  ]);
+  const asOf = new Date(btcPrice.timestamp).toISOString().split("T")[0];
+
+  const liquidityEntries = buildLiquidityEntries(
+    inputs.fedData,
+    inputs.tgaData,
+    inputs.rrpData,
+    inputs.liquidityComponents,
+    config.liquidityModel ?? "us"
+  ).filter((entry) => entry.availableFrom <= asOf && entry.date <= asOf);
+  if (liquidityEntries.length === 0) {
+    throw new Error("No liquidity data available");
+  }
+
+  const knownPMI = inputs.pmiHistory.filter(
+    (pmi) => getAvailabilityDate("NAPM", pmi.date) <= asOf
+  );
+
+  const trendCandles =
+    inputs.candles.length > 0 ? inputs.candles : candlesFromPrices(inputs.priceHistory);
+
+  const extraInputs: FactorInputs = {};
+  for (const id of weightedFactorIds(config, CORE_FACTOR_IDS)) {
+    const factor = getFactor(id);
+    const series = factor && toFactorSeries(factor, inputs.extraFactors[id] ?? [], asOf);
+    if (series) extraInputs[id] = series;
+  }
+
+  return {
+    config,
+    asOf,
+    liquidityEntries,
+    pmi: toPMIData(knownPMI),
+    pmiHistory: knownPMI.map((pmi) => pmi.value),
+    btcPrice,
+    candles: candlesWithin(trendCandles, btcPrice.timestamp, trendLookbackDays(config) * DAY_MS),
+    extraInputs,
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function validateAdjustment(label: string, adjustment: ScenarioAdjustment): string[] {
+  const hasValue = adjustment?.value !== undefined;
+  const hasChange = adjustment?.change !== undefined;
+  if (hasValue === hasChange) {
+    return [`${label} needs either a value or a change`];
+  }
+  if (hasValue && !isFiniteNumber(adjustment.value)) return [`${label}.value must be a number`];
+  if (hasChange && !isFiniteNumber(adjustment.change)) return [`${label}.change must be a number`];
+  return [];
+}
+
+/**
+ * Validate scenario overrides against a profile's liquidity model
+ * Returns a list of problems; an empty list means the overrides can be applied
+ */
+export function validateScenarioOverrides(
+  overrides: ScenarioOverrides,
+  config: IndexConfig
+): string[] {
+  const errors: string[] = [];
+  const model = config.liquidityModel ?? "us";
+  const modelIds = liquidityComponents(model).map((spec) => spec.id);
+  const knownIds = [...US_LIQUIDITY_COMPONENTS, ...GLOBAL_LIQUIDITY_COMPONENTS].map((s) => s.id);
+
+  for (const [id, adjustment] of Object.entries(overrides?.liquidity ?? {})) {
+    if (!knownIds.includes(id)) {
+      errors.push(`unknown liquidity component: ${id}`);
+    } else if (!modelIds.includes(id)) {
+      errors.push(`liquidity.${id} is not part of the ${model} liquidity model`);
+    } else {
+      errors.push(...validateAdjustment(`liquidity.${id}`, adjustment));
+    }
+  }
+
+  if (overrides?.pmi !== undefined) {
+    errors.push(...validateAdjustment("pmi", overrides.pmi));
+  }
+
+  return errors;
+}
+
+function adjust(current: number, adjustment?: ScenarioAdjustment): number {
+  if (!adjustment) return current;
+  return adjustment.value ?? current + (adjustment.change ?? 0);
+}
+
+/**
+ * Score the overrides against the latest readings, next to the unchanged baseline
+ * The overridden reading is z-scored against the actual liquidity and PMI history;
+ * the scenario's component changes are relative to the baseline
+ */
+export function applyScenario(
+  context: ScenarioContext,
+  overrides: ScenarioOverrides,
+  name?: string
+): ScenarioResult {
+  const { config, liquidityEntries, pmiHistory, btcPrice, candles, extraInputs } = context;
+  const model = config.liquidityModel ?? "us";
+  const latest = liquidityEntries[liquidityEntries.length - 1];
+  const previous = liquidityEntries[liquidityEntries.length - 2];
+  const liquidityHistory = liquidityEntries.map((entry) => entry.value);
+
+  // Components are stored signed by their effect on liquidity; overrides are balances
+  const components: LiquidityEntry["components"] = {};
+  for (const spec of liquidityComponents(model)) {
+    const component = latest.components[spec.id];
+    if (!component) continue;
+    const balance = adjust(spec.sign * component.value, overrides.liquidity?.[spec.id]);
+    components[spec.id] = { ...component, value: spec.sign * balance };
+  }
+  const adjusted: LiquidityEntry = {
+    ...latest,
+    components,
+    value: Object.values(components).reduce((sum, c) => sum + c.value, 0),
+  };
+
+  const pmiValue = adjust(context.pmi.value, overrides.pmi);
+  const pmi: ISMPMIData =
+    overrides.pmi === undefined
+      ? context.pmi
+      : {
+          ...context.pmi,
+          value: pmiValue,
+          change: pmiValue - context.pmi.value,
+          note: "Scenario",
+        };
+
+  const score = (state: Omit<ScenarioState, "directionIndex">): ScenarioState => ({
+    ...state,
+    directionIndex: calculateBitcoinDirectionIndex(
+      state.liquidity,
+      liquidityHistory,
+      state.pmi,
+      pmiHistory,
+      btcPrice,
+      candles,
+      config,
+      extraInputs
+    ),
+  });
+
+  const baseline = score({ liquidity: toLiquidityData(latest, previous, model), pmi: context.pmi });
+  const scenario = score({ liquidity: toLiquidityData(adjusted, latest, model), pmi });
+
+  return {
+    ...(name ? { name } : {}),
+    profile: config.name,
+    asOf: context.asOf,
+    baseline,
+    scenario,
+    indexChange: scenario.directionIndex.index - baseline.directionIndex.index,
+  };
+}
+
+/**
+ * Run one set of overrides under a profile
+ */
+export async function runScenario(
+  overrides: ScenarioOverrides,
+  config: IndexConfig,
+  name?: string
+): Promise<ScenarioResult> {
+  return applyScenario(await loadScenarioContext(config), overrides, name);
+}
+
+/**
+ * Run saved scenarios, loading the latest readings once per profile
+ * Throws when a scenario refers to a profile that no longer exists
+ */
+export async function runScenarios(scenarios: Scenario[]): Promise<ScenarioResult[]> {
+  const contexts = new Map<string, Promise<ScenarioContext>>();
+  const contextFor = async (profile: string | undefined) => {
+    const key = profile ?? "";
+    let context = contexts.get(key);
+    if (!context) {
+      context = getIndexProfile(profile).then((config) => {
+        if (!config) throw new Error(`Unknown index profile: ${profile}`);
+        return loadScenarioContext(config);
+      });
+      contexts.set(key, context);
+    }
+    return context;
+  };
+
+  return Promise.all(
+    scenarios.map(async (scenario) =>
+      applyScenario(await contextFor(scenario.profile), scenario.overrides, scenario.name)
+    )
+  );
+}
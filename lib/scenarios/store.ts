@@ -0,0 +1,42 @@
+import { readJSON, writeJSON } from "../store/files";
+import { Scenario } from "../types";
+
+// Saved scenarios live in the local data store, keyed by name
+const SCENARIOS_FILE = "scenarios/scenarios.json";
+
+/**
+ * Saved scenarios, oldest first
+ */
+export async function listScenarios(): Promise<Scenario[]> {
+  const scenarios = (await readJSON<Scenario[]>(SCENARIOS_FILE)) ?? [];
+  return scenarios.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getScenario(name: string): Promise<Scenario | undefined> {
+  return (await listScenarios()).find((s) => s.name === name);
+}
+
+/**
+ * Save a scenario, replacing any scenario with the same name (its creation time is kept)
+ */
+export async function saveScenario(
+  scenario: Omit<Scenario, "createdAt" | "updatedAt">
+): Promise<Scenario> {
+  const scenarios = await listScenarios();
+  const existing = scenarios.find((s) => s.name === scenario.name);
+  const now = Date.now();
+  const saved: Scenario = { ...scenario, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  await writeJSON(SCENARIOS_FILE, [...scenarios.filter((s) => s.name !== scenario.name), saved]);
+  return saved;
+}
+
+/**
+ * Delete a scenario; returns false when no scenario has the given name
+ */
+export async function deleteScenario(name: string): Promise<boolean> {
+  const scenarios = await listScenarios();
+  const remaining = scenarios.filter((s) => s.name !== name);
+  if (remaining.length === scenarios.length) return false;
+  await writeJSON(SCENARIOS_FILE, remaining);
+  return true;
+}
@@ -0,0 +1,144 @@
+import { fetchFREDSeriesInfo } from "./providers";
+import {
+  getFREDSeries,
+  getFREDSeriesSince,
+  getFREDVintages,
+  getFREDVintagesSince,
+} from "./store";
+import { readJSON, writeJSON } from "./store/files";
+import { FREDData, FREDVintageObservation, SeriesMetadata } from "./types";
+import { MILLION, parseFREDUnits, rescale } from "./units";
+
+function catalogEntry(
+  id: string,
+  title: string,
+  units: string,
+  frequency: string
+): [string, SeriesMetadata] {
+  return [id, { id, title, units, frequency, ...parseFREDUnits(units) }];
+}
+
+// Units of the series the index uses, so they are known without a request (and with the demo key)
+export const SERIES_CATALOG: Record<string, SeriesMetadata> = Object.fromEntries([
+  catalogEntry("WALCL", "Fed Total Assets (Wednesday Level)", "Millions of U.S. Dollars", "Weekly"),
+  catalogEntry(
+    "WTREGEN",
+    "U.S. Treasury, General Account (Week Average)",
+    "Millions of U.S. Dollars",
+    "Weekly"
+  ),
+  catalogEntry(
+    "RRPONTSYD",
+    "Overnight Reverse Repurchase Agreements: Treasury Securities Sold",
+    "Billions of U.S. Dollars",
+    "Daily"
+  ),
+  catalogEntry("NAPM", "ISM Manufacturing: PMI Composite Index", "Index", "Monthly"),
+  catalogEntry("ECBASSETSW", "Central Bank Assets for Euro Area", "Millions of Euros", "Weekly"),
+  catalogEntry("JPNASSETS", "Bank of Japan: Total Assets", "100 Million Yen", "Monthly"),
+  catalogEntry(
+    "TRESEGCNM052N",
+    "Total Reserves excluding Gold for China",
+    "U.S. Dollars",
+    "Monthly"
+  ),
+  catalogEntry(
+    "DEXUSEU",
+    "U.S. Dollars to Euro Spot Exchange Rate",
+    "U.S. Dollars to One Euro",
+    "Daily"
+  ),
+  catalogEntry(
+    "DEXJPUS",
+    "Japanese Yen to U.S. Dollar Spot Exchange Rate",
+    "Japanese Yen to One U.S. Dollar",
+    "Daily"
+  ),
+]);
+
+const metadataPath = (seriesId: string) => `metadata/fred/${seriesId}.json`;
+
+/**
+ * Units and frequency of a FRED series
+ * Series outside the catalog are looked up on FRED once and kept in the data store
+ */
+export async function getSeriesMetadata(seriesId: string): Promise<SeriesMetadata> {
+  const known = SERIES_CATALOG[seriesId];
+  if (known) return known;
+
+  const stored = await readJSON<SeriesMetadata>(metadataPath(seriesId));
+  if (stored) return stored;
+
+  const info = await fetchFREDSeriesInfo(seriesId);
+  const metadata: SeriesMetadata = { ...info, ...parseFREDUnits(info.units) };
+  await writeJSON(metadataPath(seriesId), metadata);
+  return metadata;
+}
+
+/**
+ * Scale of a FRED amount series
+ * Throws for series that aren't amounts (indexes, rates), which can't be added up
+ */
+async function amountScale(seriesId: string): Promise<number> {
+  const metadata = await getSeriesMetadata(seriesId);
+  if (metadata.scale === undefined) {
+    throw new Error(`${seriesId} is in ${metadata.units}, not a currency amount`);
+  }
+  return metadata.scale;
+}
+
+/**
+ * Observations of a FRED amount series in millions of its currency
+ */
+export async function getFREDSeriesInMillions(
+  seriesId: string,
+  limit?: number
+): Promise<FREDData[]> {
+  const [scale, observations] = await Promise.all([
+    amountScale(seriesId),
+    getFREDSeries(seriesId, limit),
+  ]);
+  return rescale(observations, scale, MILLION);
+}
+
+/**
+ * Observations of a FRED amount series covering `since` onward, in millions of its currency
+ */
+export async function getFREDSeriesInMillionsSince(
+  seriesId: string,
+  since: string
+): Promise<FREDData[]> {
+  const [scale, observations] = await Promise.all([
+    amountScale(seriesId),
+    getFREDSeriesSince(seriesId, since),
+  ]);
+  return rescale(observations, scale, MILLION);
+}
+
+/**
+ * Every vintage of a FRED amount series in millions of its currency
+ */
+export async function getFREDVintagesInMillions(
+  seriesId: string,
+  limit?: number
+): Promise<FREDVintageObservation[]> {
+  const [scale, vintages] = await Promise.all([
+    amountScale(seriesId),
+    getFREDVintages(seriesId, limit),
+  ]);
+  return rescale(vintages, scale, MILLION);
+}
+
+/**
+ * Vintages of a FRED amount series covering `since` onward, in millions of its currency
+ */
+export async function getFREDVintagesInMillionsSince(
+  seriesId: string,
+  since: string
+): Promise<FREDVintageObservation[]> {
+  const [scale, vintages] = await Promise.all([
+    amountScale(seriesId),
+    getFREDVintagesSince(seriesId, since),
+  ]);
+  return rescale(vintages, scale, MILLION);
+}
@@ -0,0 +1,81 @@
+import { daysBetween } from "../alignment";
+import {
+  createIndexReplay,
+  fetchIndexHistoryInputs,
+  getDaysFromTimespan,
+  IndexReplayPoint,
+} from "../index-history";
+import { IndexSnapshot, SnapshotComparison } from "../types";
+
+interface ReplayedClose {
+  price: number;
+  replay: IndexReplayPoint | null;
+}
+
+/**
+ * Compare recorded snapshots with what the history replay gives for the same days today
+ * Differences come from data revisions, late publications, the close vs. the intraday
+ * price, and config changes between recording and now
+ */
+export async function compareIndexSnapshots(
+  snapshots: IndexSnapshot[]
+): Promise<SnapshotComparison[]> {
+  if (snapshots.length === 0) return [];
+
+  // Same windows as /api/index/history: the 1Y view when it covers every snapshot
+  const today = new Date().toISOString().split("T")[0];
+  const oldest = snapshots.reduce((min, s) => (s.date < min ? s.date : min), today);
+  const days = getDaysFromTimespan(daysBetween(oldest, today) < 365 ? "1Y" : "ALL");
+
+  // Each snapshot is replayed with the config it was recorded with
+  const replays = new Map<string, Promise<Map<string, ReplayedClose>>>();
+  const replayFor = (snapshot: IndexSnapshot) => {
+    let replay = replays.get(snapshot.configVersion);
+    if (!replay) {
+      replay = fetchIndexHistoryInputs(days, snapshot.config).then((inputs) => {
+        const replayPoint = createIndexReplay(inputs, { config: snapshot.config });
+        const byDate = new Map<string, ReplayedClose>();
+        for (const point of inputs.priceHistory) {
+          try {
+            byDate.set(point.date, { price: point.price, replay: replayPoint(point) });
+          } catch (calcError) {
+            console.warn(`Failed to calculate index for ${point.date}:`, calcError);
+            byDate.set(point.date, { price: point.price, replay: null });
+          }
+        }
+        return byDate;
+      });
+      replays.set(snapshot.configVersion, replay);
+    }
+    return replay;
+  };
+
+  return Promise.all(
+    snapshots.map(async (snapshot): Promise<SnapshotComparison> => {
+      const close = (await replayFor(snapshot)).get(snapshot.date);
+      const recomputed = close?.replay?.directionIndex ?? null;
+      const recorded = snapshot.directionIndex;
+
+      const factorDifferences: Record<string, number> = {};
+      for (const factor of recomputed?.factors ?? []) {
+        const before = recorded.factors.find((f) => f.id === factor.id);
+        if (factor.available && before?.available) {
+          factorDifferences[factor.id] = factor.score - before.score;
+        }
+      }
+
+      return {
+        date: snapshot.date,
+        recordedAt: snapshot.recordedAt,
+        profile: snapshot.profile,
+        configVersion: snapshot.configVersion,
+        recordedIndex: recorded.index,
+        recomputedIndex: recomputed?.index ?? null,
+        difference: recomputed ? recomputed.index - recorded.index : null,
+        recordedPrice: snapshot.bitcoinPrice.price,
+        closePrice: close?.price ?? null,
+        factorDifferences,
+      };
+    })
+  );
+}
@@ -0,0 +1,9 @@
+export {
+  configVersion,
+  takeIndexSnapshot,
+  recordIndexSnapshot,
+  recordDailySnapshots,
+} from "./recorder";
+export { compareIndexSnapshots } from "./compare";
+export { readIndexSnapshot, listIndexSnapshots } from "./store";
+export { startSnapshotRecorder, stopSnapshotRecorder, snapshotProfiles } from "./scheduler";
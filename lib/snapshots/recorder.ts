@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { assessDataQuality } from "../data-quality";
+import { IndexHistoryInputs } from "../index-history";
+import { getIndexProfile } from "../index-profiles";
+import { GLOBAL_LIQUIDITY_COMPONENTS, latestLiquidityData } from "../liquidity";
+import { computeLiveIndex } from "../live-index";
+import { toPMIData } from "../pmi";
+import { assetDailyKey, fredKey, getStoreStatus } from "../store";
+import { DataVintage, IndexConfig, IndexSnapshot } from "../types";
+import { readIndexSnapshot, saveIndexSnapshot } from "./store";
+
+let pendingRecording: Promise<IndexSnapshot[]> | null = null;
+
+// JSON with object keys sorted, so the hash doesn't depend on key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Short hash identifying a config; any change to the formula gives a new version
+ */
+export function configVersion(config: IndexConfig): string {
+  return createHash("sha256").update(stableStringify(config)).digest("hex").slice(0, 12);
+}
+
+/**
+ * Last observation of every input, with the store's sync time where the input is stored
+ */
+async function dataVintages(
+  inputs: IndexHistoryInputs,
+  config: IndexConfig
+): Promise<Record<string, DataVintage>> {
+  const syncedAt = new Map((await getStoreStatus()).map((s) => [s.key, s.lastSyncedAt]));
+  const vintage = (series: { date: string }[], key?: string): DataVintage => ({
+    lastDate: series[series.length - 1]?.date ?? null,
+    syncedAt: key ? syncedAt.get(key) ?? null : null,
+  });
+
+  const vintages: Record<string, DataVintage> = {
+    WALCL: vintage(inputs.fedData, fredKey("WALCL")),
+    WTREGEN: vintage(inputs.tgaData, fredKey("WTREGEN")),
+    RRPONTSYD: vintage(inputs.rrpData, fredKey("RRPONTSYD")),
+    [inputs.asset.id]: vintage(inputs.priceHistory, assetDailyKey(inputs.asset)),
+    pmi: vintage(inputs.pmiHistory, fredKey("NAPM")),
+  };
+  if (config.liquidityModel === "global") {
+    for (const spec of GLOBAL_LIQUIDITY_COMPONENTS) {
+      vintages[spec.seriesId] = vintage(
+        inputs.liquidityComponents[spec.id] ?? [],
+        fredKey(spec.seriesId)
+      );
+    }
+  }
+  for (const [id, series] of Object.entries(inputs.extraFactors)) {
+    vintages[id] = vintage(series);
+  }
+  return vintages;
+}
+
+/**
+ * Compute the live index for a profile and capture it with its inputs and data vintages
+ */
+export async function takeIndexSnapshot(config: IndexConfig): Promise<IndexSnapshot> {
+  const { btcPrice, inputs, date, directionIndex, staleness } = await computeLiveIndex(config);
+
+  return {
+    date,
+    recordedAt: Date.now(),
+    profile: config.name,
+    configVersion: configVersion(config),
+    config,
+    bitcoinPrice: btcPrice,
+    directionIndex,
+    liquidity: latestLiquidityData(
+      inputs.fedData,
+      inputs.tgaData,
+      inputs.rrpData,
+      inputs.liquidityComponents,
+      config.liquidityModel ?? "us"
+    ),
+    pmi: toPMIData(inputs.pmiHistory),
+    staleness,
+    quality: assessDataQuality(inputs, { asOf: date, config, directionIndex, btcPrice }),
+    vintages: await dataVintages(inputs, config),
+  };
+}
+
+/**
+ * Take and save a snapshot, replacing the profile's snapshot for the day if there is one
+ */
+export async function recordIndexSnapshot(config: IndexConfig): Promise<IndexSnapshot> {
+  return saveIndexSnapshot(await takeIndexSnapshot(config));
+}
+
+async function runRecording(profiles: string[]): Promise<IndexSnapshot[]> {
+  const today = new Date().toISOString().split("T")[0];
+  const recorded: IndexSnapshot[] = [];
+
+  for (const profile of profiles) {
+    try {
+      if (await readIndexSnapshot(profile, today)) continue;
+
+      const config = await getIndexProfile(profile);
+      if (!config) {
+        throw new Error(`Unknown index profile: ${profile}`);
+      }
+      recorded.push(await recordIndexSnapshot(config));
+    } catch (error) {
+      // One failing profile shouldn't stop the others; it is retried next run
+      console.error(`Snapshot recording failed for profile ${profile}:`, error);
+    }
+  }
+  return recorded;
+}
+
+/**
+ * Record today's snapshot for every profile that doesn't have one yet
+ * Concurrent calls share one recording
+ */
+export function recordDailySnapshots(profiles: string[]): Promise<IndexSnapshot[]> {
+  if (!pendingRecording) {
+    pendingRecording = runRecording(profiles).finally(() => {
+      pendingRecording = null;
+    });
+  }
+  return pendingRecording;
+}
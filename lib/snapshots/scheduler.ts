@@ -0,0 +1,44 @@
+import { recordDailySnapshots } from "./recorder";
+
+// Checked hourly; a profile is only recorded once per day
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Profiles to record, from SNAPSHOT_PROFILES (comma-separated; the default profile when unset)
+ */
+export function snapshotProfiles(): string[] {
+  const profiles = (process.env.SNAPSHOT_PROFILES ?? "default")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return profiles.length > 0 ? profiles : ["default"];
+}
+
+/**
+ * Record each profile's daily snapshot from the server process
+ * SNAPSHOTS_INTERVAL_MINUTES sets how often to check; 0 disables the recorder
+ */
+export function startSnapshotRecorder(): void {
+  const minutes = Number(process.env.SNAPSHOTS_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+  if (timer || !(minutes > 0)) return;
+
+  const run = () => {
+    recordDailySnapshots(snapshotProfiles())
+      .then((snapshots) => {
+        if (snapshots.length > 0) console.log(`Recorded ${snapshots.length} index snapshot(s)`);
+      })
+      .catch((error) => console.error("Scheduled snapshot recording failed:", error));
+  };
+
+  timer = setInterval(run, minutes * 60 * 1000);
+  // Don't keep the process alive just for snapshots
+  timer.unref();
+  run();
+}
+
+export function stopSnapshotRecorder(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
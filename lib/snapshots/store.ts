@@ -0,0 +1,54 @@
+import path from "path";
+import { listJSON, readJSON, writeJSON } from "../store/files";
+import { IndexSnapshot } from "../types";
+
+// One file per profile and day: snapshots/<profile>/<YYYY-MM-DD>.json
+const SNAPSHOTS_DIR = "snapshots";
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function snapshotPath(profile: string, date: string): string {
+  // Both end up in a file path, so only accept the formats we write
+  if (!PROFILE_NAME.test(profile)) {
+    throw new Error(`Invalid profile name: ${profile}`);
+  }
+  if (!DATE.test(date)) {
+    throw new Error(`Invalid snapshot date "${date}" (expected YYYY-MM-DD)`);
+  }
+  return path.join(SNAPSHOTS_DIR, profile, `${date}.json`);
+}
+
+export async function readIndexSnapshot(
+  profile: string,
+  date: string
+): Promise<IndexSnapshot | null> {
+  return readJSON<IndexSnapshot>(snapshotPath(profile, date));
+}
+
+/**
+ * Save a snapshot, replacing any snapshot of the same profile and day
+ */
+export async function saveIndexSnapshot(snapshot: IndexSnapshot): Promise<IndexSnapshot> {
+  await writeJSON(snapshotPath(snapshot.profile, snapshot.date), snapshot);
+  return snapshot;
+}
+
+/**
+ * Recorded snapshots of a profile, oldest first
+ * `from` and `to` are inclusive YYYY-MM-DD bounds
+ */
+export async function listIndexSnapshots(
+  profile: string,
+  range: { from?: string; to?: string } = {}
+): Promise<IndexSnapshot[]> {
+  const dir = path.dirname(snapshotPath(profile, "1970-01-01"));
+  const dates = (await listJSON(dir))
+    .map((file) => path.basename(file, ".json"))
+    .filter((date) => DATE.test(date))
+    .filter((date) => (!range.from || date >= range.from) && (!range.to || date <= range.to))
+    .sort();
+
+  const snapshots = await Promise.all(dates.map((date) => readIndexSnapshot(profile, date)));
+  return snapshots.filter((s): s is IndexSnapshot => s !== null);
+}
@@ -0,0 +1,31 @@
+/**
+ * Calculate z-score normalization
+ */
+export function calculateZScore(value: number, mean: number, stdDev: number): number {
+  if (stdDev === 0) return 0;
+  return (value - mean) / stdDev;
+}
+
+/**
+ * Calculate mean and standard deviation from an array of numbers
+ */
+export function calculateStats(values: number[]): { mean: number; stdDev: number } {
+  if (values.length === 0) {
+    return { mean: 0, stdDev: 1 }; // Default to avoid division by zero
+  }
+  
+  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+  const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+  const stdDev = Math.sqrt(variance);
+  
+  // If stdDev is 0 (all values are the same), use a small value to avoid division by zero
+  // This happens when historical data is insufficient or all the same
+  return { mean, stdDev: stdDev || 1 };
+}
+
+/**
+ * Clamp a value to ±limit and scale it into the -1 to 1 range
+ */
+export function clampToUnit(value: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, value)) / limit;
+}
@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Root of the local data store; override with DATA_DIR
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data");
+
+/**
+ * Read a JSON file under the data directory
+ * Returns null when the file doesn't exist
+ */
+export async function readJSON<T>(relativePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(path.join(DATA_DIR, relativePath), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Numbers each write's temporary file, so concurrent writes of one file don't share it
+let writeCount = 0;
+
+/**
+ * Write a JSON file under the data directory
+ * Writes to a temporary file first so readers never see a half-written file
+ */
+export async function writeJSON(relativePath: string, value: unknown): Promise<void> {
+  const target = path.join(DATA_DIR, relativePath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${++writeCount}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value) + "\n", "utf8");
+  await fs.rename(tmp, target);
+}
+
+/**
+ * Relative paths of the JSON files in a data subdirectory
+ */
+export async function listJSON(relativeDir: string): Promise<string[]> {
+  const root = path.join(DATA_DIR, relativeDir);
+  try {
+    const entries = await fs.readdir(root, { recursive: true });
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => path.join(relativeDir, entry));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
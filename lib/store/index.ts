@@ -0,0 +1,257 @@
+import { AssetSpec, DEFAULT_ASSET } from "../assets";
+import type { DerivativesMetric, OnChainMetric } from "../providers";
+import { fetchAggregatedPrice } from "../price-aggregation";
+import {
+  AssetPrice,
+  Candle,
+  FREDData,
+  FREDVintageObservation,
+  PricePoint,
+} from "../types";
+import { cacheAssetPrice, readCachedAssetPrice } from "./prices";
+import { readSeries, listSeriesKeys, StoredSeries, DatedObservation } from "./series";
+import {
+  alfredKey,
+  assetCandlesKey,
+  assetDailyKey,
+  derivativesKey,
+  fredKey,
+  onChainKey,
+  syncAssetCandles,
+  syncAssetHistory,
+  syncDerivativesMetric,
+  syncFREDSeries,
+  syncFREDVintages,
+  syncOnChainMetric,
+  SyncResult,
+} from "./sync";
+
+export { DATA_DIR } from "./files";
+export { readSeries, writeSeries, mergeByDate } from "./series";
+export {
+  syncAll,
+  syncFREDSeries,
+  syncFREDVintages,
+  syncAssetHistory,
+  syncAssetCandles,
+  syncOnChainMetric,
+  syncDerivativesMetric,
+  DEFAULT_SYNC_SERIES,
+  fredKey,
+  alfredKey,
+  assetDailyKey,
+  assetCandlesKey,
+  onChainKey,
+  derivativesKey,
+} from "./sync";
+export type { SyncResult } from "./sync";
+export { assetPriceKey, cacheAssetPrice } from "./prices";
+export { listSeriesKeys } from "./series";
+
+// With STORE_OFFLINE=1 the store is read-only: nothing is fetched from upstream
+const OFFLINE = process.env.STORE_OFFLINE === "1";
+
+// The background refresh worker (lib/refresh) keeps the store fresh unless REFRESH_WORKER=0;
+// while it runs, reads serve stored data as is and only sync series that were never stored
+export const REFRESH_WORKER_ENABLED = process.env.REFRESH_WORKER !== "0" && !OFFLINE;
+
+const FRED_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const VINTAGE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const PRICE_MAX_AGE_MS = 60 * 60 * 1000;
+const ONCHAIN_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const DERIVATIVES_MAX_AGE_MS = 60 * 60 * 1000;
+
+const pendingSyncs = new Map<string, Promise<SyncResult>>();
+
+/**
+ * Read a stored series, topping it up first if the last sync is older than maxAgeMs
+ * (while the refresh worker runs, only if it was never stored)
+ * If the sync fails, whatever is already stored is served (offline fallback);
+ * only a series that was never stored surfaces the error
+ */
+async function readThrough<T extends DatedObservation>(
+  key: string,
+  maxAgeMs: number,
+  sync: () => Promise<SyncResult>
+): Promise<StoredSeries<T> | null> {
+  const stored = await readSeries<T>(key);
+  const fresh = stored && (REFRESH_WORKER_ENABLED || Date.now() - stored.lastSyncedAt < maxAgeMs);
+  if (OFFLINE || fresh) {
+    return stored;
+  }
+
+  // Coalesce concurrent syncs of the same series
+  let pending = pendingSyncs.get(key);
+  if (!pending) {
+    pending = sync().finally(() => pendingSyncs.delete(key));
+    pendingSyncs.set(key, pending);
+  }
+
+  try {
+    await pending;
+  } catch (error) {
+    if (!stored) throw error;
+    console.warn(`Sync of ${key} failed, serving stored data:`, error);
+    return stored;
+  }
+  return readSeries<T>(key);
+}
+
+/**
+ * Observations of a FRED series from the local store, in chronological order
+ * `limit` keeps only the most recent observations; the full stored history when omitted
+ */
+export async function getFREDSeries(seriesId: string, limit?: number): Promise<FREDData[]> {
+  const stored = await readThrough<FREDData>(fredKey(seriesId), FRED_MAX_AGE_MS, () =>
+    syncFREDSeries(seriesId)
+  );
+  const observations = stored?.observations ?? [];
+  return limit === undefined ? observations : observations.slice(-limit);
+}
+
+/**
+ * Observations of a FRED series from the local store covering `since` onward: every one dated
+ * after it, and the last one on or before it so the series can be carried forward to `since`
+ */
+export async function getFREDSeriesSince(seriesId: string, since: string): Promise<FREDData[]> {
+  return coveringSince(await getFREDSeries(seriesId), since);
+}
+
+/**
+ * Observations dated after `since`, plus every one sharing the date of the last observation on
+ * or before it (vintages of a series have several observations per date)
+ */
+function coveringSince<T extends { date: string }>(observations: T[], since: string): T[] {
+  const before = observations.filter((obs) => obs.date <= since);
+  const firstDate = before.length > 0 ? before[before.length - 1].date : "";
+  return observations.filter((obs) => obs.date >= firstDate);
+}
+
+/**
+ * Every vintage of a FRED series' observations from the local store (see fetchFREDVintages)
+ * `limit` keeps only the vintages of the most recent observation dates
+ */
+export async function getFREDVintages(
+  seriesId: string,
+  limit?: number
+): Promise<FREDVintageObservation[]> {
+  const stored = await readThrough<FREDVintageObservation>(
+    alfredKey(seriesId),
+    VINTAGE_MAX_AGE_MS,
+    () => syncFREDVintages(seriesId)
+  );
+  const observations = stored?.observations ?? [];
+  if (limit === undefined) return observations;
+
+  const dates = Array.from(new Set(observations.map((obs) => obs.date)));
+  const firstDate = dates[dates.length - limit] ?? "";
+  return observations.filter((obs) => obs.date >= firstDate);
+}
+
+/**
+ * Vintages of a FRED series covering `since` onward (see getFREDSeriesSince)
+ */
+export async function getFREDVintagesSince(
+  seriesId: string,
+  since: string
+): Promise<FREDVintageObservation[]> {
+  return coveringSince(await getFREDVintages(seriesId), since);
+}
+
+/**
+ * Daily observations of an on-chain metric from the local store, in chronological order
+ * `limit` keeps only the most recent observations; the full stored history when omitted
+ */
+export async function getOnChainSeries(metric: OnChainMetric, limit?: number): Promise<FREDData[]> {
+  const stored = await readThrough<FREDData>(onChainKey(metric), ONCHAIN_MAX_AGE_MS, () =>
+    syncOnChainMetric(metric)
+  );
+  const observations = stored?.observations ?? [];
+  return limit === undefined ? observations : observations.slice(-limit);
+}
+
+/**
+ * Daily observations of a derivatives metric of an asset (BTC by default), in chronological order
+ * `limit` keeps only the most recent observations; the full stored history when omitted
+ */
+export async function getDerivativesSeries(
+  metric: DerivativesMetric,
+  asset: AssetSpec = DEFAULT_ASSET,
+  limit?: number
+): Promise<FREDData[]> {
+  const stored = await readThrough<FREDData>(
+    derivativesKey(asset, metric),
+    DERIVATIVES_MAX_AGE_MS,
+    () => syncDerivativesMetric(asset, metric)
+  );
+  const observations = stored?.observations ?? [];
+  return limit === undefined ? observations : observations.slice(-limit);
+}
+
+/**
+ * Current price of an asset (BTC by default)
+ * With the refresh worker on, the price it cached last (fetched once if none is cached yet);
+ * a live request otherwise
+ */
+export async function getAssetPrice(asset: AssetSpec = DEFAULT_ASSET): Promise<AssetPrice> {
+  if (!REFRESH_WORKER_ENABLED) return fetchAggregatedPrice(asset);
+  return (await readCachedAssetPrice(asset)) ?? cacheAssetPrice(asset);
+}
+
+/**
+ * Daily closes of an asset (BTC by default) from the local store covering the last `days` days
+ */
+export async function getAssetDailyHistory(
+  days: number,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<PricePoint[]> {
+  const stored = await readThrough<PricePoint>(assetDailyKey(asset), PRICE_MAX_AGE_MS, () =>
+    syncAssetHistory(asset)
+  );
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return (stored?.observations ?? []).filter((p) => p.timestamp >= cutoff);
+}
+
+/**
+ * Daily OHLCV candles of an asset (BTC by default) from the local store covering the last `days` days
+ * The last candle may still be open; see closedCandles
+ */
+export async function getAssetDailyCandles(
+  days: number,
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<Candle[]> {
+  const stored = await readThrough<Candle>(assetCandlesKey(asset), PRICE_MAX_AGE_MS, () =>
+    syncAssetCandles(asset)
+  );
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return (stored?.observations ?? []).filter((c) => c.timestamp >= cutoff);
+}
+
+export interface StoredSeriesStatus {
+  key: string;
+  lastSyncedAt: number;
+  count: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+/**
+ * Summary of every series in the store
+ */
+export async function getStoreStatus(): Promise<StoredSeriesStatus[]> {
+  const keys = await listSeriesKeys();
+  const statuses = await Promise.all(
+    keys.map(async (key): Promise<StoredSeriesStatus | null> => {
+      const series = await readSeries<DatedObservation>(key);
+      if (!series) return null;
+      return {
+        key,
+        lastSyncedAt: series.lastSyncedAt,
+        count: series.observations.length,
+        firstDate: series.observations[0]?.date ?? null,
+        lastDate: series.observations[series.observations.length - 1]?.date ?? null,
+      };
+    })
+  );
+  return statuses.filter((s): s is StoredSeriesStatus => s !== null);
+}
@@ -0,0 +1,31 @@
+import { AssetSpec, DEFAULT_ASSET } from "../assets";
+import { fetchAggregatedPrice } from "../price-aggregation";
+import { AssetPrice } from "../types";
+import { readJSON, writeJSON } from "./files";
+
+export function assetPriceKey(asset: AssetSpec = DEFAULT_ASSET): string {
+  return `prices/${asset.id}`;
+}
+
+// A single latest value rather than a dated series, so it lives outside series/
+function pricePath(asset: AssetSpec): string {
+  return `cache/${assetPriceKey(asset)}.json`;
+}
+
+/**
+ * Fetch an asset's current price and cache it for every reader of the store
+ */
+export async function cacheAssetPrice(asset: AssetSpec = DEFAULT_ASSET): Promise<AssetPrice> {
+  const price = await fetchAggregatedPrice(asset);
+  await writeJSON(pricePath(asset), price);
+  return price;
+}
+
+/**
+ * The price last cached for an asset, or null when none has been
+ */
+export async function readCachedAssetPrice(
+  asset: AssetSpec = DEFAULT_ASSET
+): Promise<AssetPrice | null> {
+  return readJSON<AssetPrice>(pricePath(asset));
+}
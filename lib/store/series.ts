@@ -0,0 +1,46 @@
+import { readJSON, writeJSON, listJSON } from "./files";
+
+export interface DatedObservation {
+  date: string;
+}
+
+export interface StoredSeries<T extends DatedObservation> {
+  key: string; // e.g. "fred/WALCL"
+  lastSyncedAt: number;
+  observations: T[]; // chronological, one per date (one per date and vintage for ALFRED)
+}
+
+function seriesPath(key: string): string {
+  return `series/${key}.json`;
+}
+
+export async function readSeries<T extends DatedObservation>(
+  key: string
+): Promise<StoredSeries<T> | null> {
+  return readJSON<StoredSeries<T>>(seriesPath(key));
+}
+
+export async function writeSeries<T extends DatedObservation>(
+  series: StoredSeries<T>
+): Promise<void> {
+  await writeJSON(seriesPath(series.key), series);
+}
+
+/**
+ * Merge new observations into stored ones
+ * An incoming observation replaces a stored one with the same date (revisions win)
+ */
+export function mergeByDate<T extends DatedObservation>(existing: T[], incoming: T[]): T[] {
+  const byDate = new Map<string, T>();
+  for (const obs of existing) byDate.set(obs.date, obs);
+  for (const obs of incoming) byDate.set(obs.date, obs);
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Keys of every series in the store
+ */
+export async function listSeriesKeys(): Promise<string[]> {
+  const files = await listJSON("series");
+  return files.map((file) => file.replace(/^series\//, "").replace(/\.json$/, ""));
+}
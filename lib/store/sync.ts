@@ -0,0 +1,216 @@
+import { ASSETS, AssetSpec, DEFAULT_ASSET } from "../assets";
+import {
+  DerivativesMetric,
+  DERIVATIVES_PROVIDER_NAME,
+  DERIVATIVES_METRICS,
+  fetchDerivativesMetricSince,
+  fetchFREDObservationsSince,
+  fetchFREDVintages,
+  fetchAssetCandles,
+  fetchAssetDailyHistory,
+  fetchOnChainMetricSince,
+  MAX_HISTORY_DAYS,
+  OnChainMetric,
+  ONCHAIN_PROVIDER_NAME,
+} from "../providers";
+import { Candle, FREDData, FREDVintageObservation, PricePoint } from "../types";
+import { mergeByDate, readSeries, writeSeries } from "./series";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Series the sync job keeps topped up; other FRED series are synced on first use
+export const DEFAULT_SYNC_SERIES = ["WALCL", "WTREGEN", "RRPONTSYD", "NAPM"];
+
+export interface SyncResult {
+  key: string;
+  fetched: number; // observations received from upstream
+  total: number; // observations stored after the merge
+  lastDate: string | null;
+  error?: string;
+}
+
+export function fredKey(seriesId: string): string {
+  return `fred/${seriesId}`;
+}
+
+// Every ALFRED vintage of a FRED series: one observation per date and vintage
+export function alfredKey(seriesId: string): string {
+  return `alfred/${seriesId}`;
+}
+
+export function assetDailyKey(asset: AssetSpec = DEFAULT_ASSET): string {
+  return `coingecko/${asset.coingeckoId}-daily`;
+}
+
+export function assetCandlesKey(asset: AssetSpec = DEFAULT_ASSET): string {
+  return `coinbase/${asset.coinbaseProduct}-1d`;
+}
+
+// Stored per provider so fixture data never mixes with real data
+export function onChainKey(metric: OnChainMetric): string {
+  return `onchain/${ONCHAIN_PROVIDER_NAME}/${metric}`;
+}
+
+export function derivativesKey(asset: AssetSpec, metric: DerivativesMetric): string {
+  return `derivatives/${DERIVATIVES_PROVIDER_NAME}/${asset.futuresSymbol}-${metric}`;
+}
+
+/**
+ * Top up a stored FRED series with observations newer than the last stored date
+ * The last stored date is re-requested so a revision to it is picked up
+ */
+export async function syncFREDSeries(seriesId: string): Promise<SyncResult> {
+  const key = fredKey(seriesId);
+  const stored = await readSeries<FREDData>(key);
+  const lastDate = stored?.observations[stored.observations.length - 1]?.date;
+
+  const incoming = await fetchFREDObservationsSince(seriesId, lastDate);
+  const observations = mergeByDate(stored?.observations ?? [], incoming);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: incoming.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Replace the stored vintages of a FRED series with every vintage ALFRED has
+ * Always fetched in full: a new vintage also ends the real-time period of the one it revises
+ */
+export async function syncFREDVintages(seriesId: string): Promise<SyncResult> {
+  const key = alfredKey(seriesId);
+  const observations: FREDVintageObservation[] = await fetchFREDVintages(seriesId);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: observations.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Top up a stored on-chain metric with observations from the last stored date on
+ */
+export async function syncOnChainMetric(metric: OnChainMetric): Promise<SyncResult> {
+  const key = onChainKey(metric);
+  const stored = await readSeries<FREDData>(key);
+  const lastDate = stored?.observations[stored.observations.length - 1]?.date;
+
+  const incoming = await fetchOnChainMetricSince(metric, lastDate);
+  const observations = mergeByDate(stored?.observations ?? [], incoming);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: incoming.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Top up a stored derivatives metric from the last stored date on
+ * The last day is re-requested since it was likely stored before the day was over
+ */
+export async function syncDerivativesMetric(
+  asset: AssetSpec,
+  metric: DerivativesMetric
+): Promise<SyncResult> {
+  const key = derivativesKey(asset, metric);
+  const stored = await readSeries<FREDData>(key);
+  const lastDate = stored?.observations[stored.observations.length - 1]?.date;
+
+  const incoming = await fetchDerivativesMetricSince(asset, metric, lastDate);
+  const observations = mergeByDate(stored?.observations ?? [], incoming);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: incoming.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Top up an asset's stored daily closes from the last stored day (full history on first run)
+ */
+export async function syncAssetHistory(asset: AssetSpec = DEFAULT_ASSET): Promise<SyncResult> {
+  const key = assetDailyKey(asset);
+  const stored = await readSeries<PricePoint>(key);
+  const last = stored?.observations[stored.observations.length - 1];
+
+  const days = last
+    ? Math.min(MAX_HISTORY_DAYS, Math.ceil((Date.now() - last.timestamp) / MS_PER_DAY) + 1)
+    : MAX_HISTORY_DAYS;
+
+  const incoming = await fetchAssetDailyHistory(days, asset);
+  const observations = mergeByDate(stored?.observations ?? [], incoming);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: incoming.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Top up an asset's stored daily candles from the last stored candle (full history on first run)
+ * The last stored candle is re-requested since it may have been stored before the day closed
+ */
+export async function syncAssetCandles(asset: AssetSpec = DEFAULT_ASSET): Promise<SyncResult> {
+  const key = assetCandlesKey(asset);
+  const stored = await readSeries<Candle>(key);
+  const last = stored?.observations[stored.observations.length - 1];
+
+  const end = Date.now();
+  const start = last ? last.timestamp : end - MAX_HISTORY_DAYS * MS_PER_DAY;
+  const incoming = await fetchAssetCandles(asset, start, end);
+  const observations = mergeByDate(stored?.observations ?? [], incoming);
+  await writeSeries({ key, lastSyncedAt: Date.now(), observations });
+
+  return {
+    key,
+    fetched: incoming.length,
+    total: observations.length,
+    lastDate: observations[observations.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Sync every default series plus the price history, candles and derivatives data of every asset
+ * One failing source doesn't stop the others; its error is reported in the result
+ */
+export async function syncAll(seriesIds: string[] = DEFAULT_SYNC_SERIES): Promise<SyncResult[]> {
+  const jobs: [string, () => Promise<SyncResult>][] = [
+    ...seriesIds.map((id): [string, () => Promise<SyncResult>] => [fredKey(id), () => syncFREDSeries(id)]),
+    ...ASSETS.flatMap((asset): [string, () => Promise<SyncResult>][] => [
+      [assetDailyKey(asset), () => syncAssetHistory(asset)],
+      [assetCandlesKey(asset), () => syncAssetCandles(asset)],
+      // Open interest and basis are only served for the last 30 days, so keep them synced
+      ...DERIVATIVES_METRICS.map((metric): [string, () => Promise<SyncResult>] => [
+        derivativesKey(asset, metric),
+        () => syncDerivativesMetric(asset, metric),
+      ]),
+    ]),
+  ];
+
+  return Promise.all(
+    jobs.map(async ([key, job]) => {
+      try {
+        return await job();
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Error syncing ${key}:`, error);
+        return { key, fetched: 0, total: 0, lastDate: null, error: message };
+      }
+    })
+  );
+}
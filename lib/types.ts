@@ -3,42 +3,530 @@ export interface FREDData {
   value: number;
 }
 
-export interface BitcoinPrice {
+/**
+ * One observation as of one ALFRED vintage: `value` was the published figure for `date`
+ * from `realtimeStart` through `realtimeEnd` (inclusive; '9999-12-31' while still current)
+ */
+export interface FREDVintageObservation extends FREDData {
+  realtimeStart: string;
+  realtimeEnd: string;
+}
+
+/**
+ * Units of a FRED series; amounts are `scale` units of `currency`, e.g. 1e9 USD for billions
+ */
+export interface SeriesMetadata {
+  id: string;
+  title: string;
+  units: string; // FRED's label, e.g. 'Millions of U.S. Dollars'
+  frequency: string;
+  currency?: string; // omitted for series that aren't amounts (indexes, rates, percents)
+  scale?: number;
+}
+
+export interface AssetPrice {
   price: number;
   timestamp: number;
   change24h?: number;
+  asset?: string; // asset id, e.g. 'eth'; BTC when omitted
+  sources?: PriceSource[]; // venues an aggregated price was computed from
 }
 
+export type PriceSourceStatus = 'used' | 'outlier' | 'failed';
+
+/**
+ * One exchange's quote in an aggregated price, or why it was left out
+ */
+export interface PriceSource {
+  exchange: string;
+  status: PriceSourceStatus;
+  price?: number;
+  volume24h?: number; // base asset traded over 24h
+  deviation?: number; // from the median of all quotes, e.g. 0.004 = 0.4%
+  error?: string;
+}
+
+// The index started out BTC-only; kept so existing code keeps compiling
+export type BitcoinPrice = AssetPrice;
+
+export type PMISource = 'FRED_NAPM' | 'manual' | 'csv' | 'placeholder';
+
 export interface ISMPMIData {
   value: number;
   date: string;
   change?: number;
   note?: string;
-  source?: string;
+  source?: PMISource;
+}
+
+export interface PMIObservation {
+  date: string; // first day of the month the print refers to (YYYY-MM-01)
+  value: number;
+  source: PMISource;
+  note?: string;
+  enteredAt?: number; // for manual and CSV entries
+}
+
+export type LiquidityModel = 'us' | 'global';
+
+export interface LiquidityComponentValue {
+  id: string;
+  label: string;
+  value: number; // signed contribution to liquidity (drains are negative)
+  change: number | null; // change since the previous reading
+  date: string; // date of the observation used
+  staleDays: number; // days between that observation and the reading's date
 }
 
 export interface LiquidityData {
   fedBalanceSheet: number;
   tga: number;
   rrp: number;
-  liquidity: number; // calculated: fedBalanceSheet - tga - rrp
+  liquidity: number; // calculated: fedBalanceSheet - tga - rrp (plus other central banks in the global model)
   date: string;
+  model?: LiquidityModel;
+  components?: LiquidityComponentValue[];
+  scale: number; // USD per unit of every amount above (1e6: millions)
+}
+
+/**
+ * How far one liquidity reading moved between its first release and the latest vintage
+ */
+export interface LiquidityRevision {
+  date: string; // Fed date of the reading
+  firstKnown: string; // date the first release of every component was public
+  firstRelease: number;
+  latest: number;
+  revision: number; // latest - firstRelease
+  components: Record<string, number>; // revision of each component's signed contribution
+}
+
+export interface LiquidityRevisionReport {
+  asOf: string;
+  scale: number; // USD per unit of the amounts (1e6: millions)
+  readings: number;
+  revised: number; // readings whose latest value differs from the first release
+  meanAbsRevision: number;
+  maxAbsRevision: number;
+  revisions: LiquidityRevision[];
+}
+
+export interface IndexConfig {
+  name: string;
+  description?: string;
+  weights: Record<string, number>; // keyed by factor id; factors not listed are ignored
+  zScoreClamp: number; // z-scores are clamped to ±zScoreClamp before weighting
+  pmiNeutral: number; // PMI level treated as neither expansion nor contraction
+  liquidityModel?: LiquidityModel; // "us" (Fed - TGA - RRP, the default) or "global" (adds ECB, BoJ, PBoC)
+  trend: {
+    method?: TrendMethod; // momentum definition; 'sma_crossover' when omitted
+    shortWindow: number; // days in the short-term average
+    mediumWindow: number; // days in the medium-term average, and the rate-of-change lookback
+    longWindow?: number; // days in the moving average for 'ma_distance' (200 when omitted)
+    scale: number; // multiplier applied to the momentum before clamping to ±1
+  };
+  bands: {
+    // lower bound (inclusive) of each interpretation band on the 0-100 scale
+    bearish: number;
+    neutral: number;
+    bullish: number;
+    veryBullish: number;
+  };
+}
+
+/**
+ * Input to a single factor at one point in time
+ */
+export interface FactorSeries {
+  current: number; // latest value known at the evaluation date
+  history: number[]; // reference values used for normalization (chronological)
+  date?: string; // date of the current value
+  candles?: Candle[]; // price bars closed by the evaluation time (trend factor)
+  timestamp?: number; // evaluation time in ms, for time-based windows
+}
+
+/**
+ * One OHLCV bar covering [timestamp, timestamp + durationMs)
+ */
+export interface Candle {
+  timestamp: number; // open time
+  date: string; // UTC day of the open time
+  durationMs: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // in units of the asset
+}
+
+/**
+ * How the trend factor measures momentum
+ * - sma_crossover: short vs. medium simple moving average
+ * - ema_crossover: short vs. medium exponential moving average
+ * - rate_of_change: price change over the medium window
+ * - ma_distance: distance of the price from the long (200-day) moving average
+ * - volatility_adjusted: rate of change divided by realized volatility over the same window
+ */
+export type TrendMethod =
+  | 'sma_crossover'
+  | 'ema_crossover'
+  | 'rate_of_change'
+  | 'ma_distance'
+  | 'volatility_adjusted';
+
+export interface FactorReading {
+  id: string;
+  label: string;
+  value: number; // raw input value
+  score: number; // z-score (or trend score) before clamping
+  normalized: number; // -1 to 1, bullish positive
+  weight: number;
+  contribution: number; // weight * normalized
+  available: boolean; // false when the factor had no data and counted as neutral
+  description: string;
 }
 
+export type IndexInterpretation = 'very_bearish' | 'bearish' | 'neutral' | 'bullish' | 'very_bullish';
+
 export interface BitcoinDirectionIndex {
   index: number; // 0-100 scale
-  liquidityZScore: number;
-  pmiZScore: number;
-  btcTrend: number;
+  factors: FactorReading[];
   timestamp: number;
-  interpretation: 'very_bearish' | 'bearish' | 'neutral' | 'bullish' | 'very_bullish';
+  interpretation: IndexInterpretation;
+  profile: string; // name of the IndexConfig used
+  asset?: string; // asset whose price drives the trend factor; BTC when omitted
 }
 
 export interface DashboardData {
+  asset?: string; // asset id the index was computed for; BTC when omitted
+  bitcoinPrice: BitcoinPrice; // price of that asset
+  liquidity: LiquidityData;
+  pmi: ISMPMIData;
+  directionIndex: BitcoinDirectionIndex;
+  correlation?: number; // correlation between index and the asset's 30-day forward returns
+  consistency?: IndexConsistency;
+  staleness?: InputStaleness;
+  quality?: DataQuality;
+}
+
+/**
+ * Live index compared with the history replay's point for the same day
+ */
+export interface IndexConsistency {
+  referenceDate: string | null; // date of the latest history point
+  referenceIndex: number | null;
+  difference: number | null; // live minus history, in index points
+  mismatchedFactors: string[]; // non-price factors that read differently
+  consistent: boolean;
+  message?: string;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  date: string;
+  price: number;
+}
+
+/**
+ * Days between each input's latest observation and the date it was used on, keyed by factor id
+ */
+export type InputStaleness = Record<string, number>;
+
+export interface IndexHistoryPoint {
+  timestamp: number;
+  date: string;
+  index: number;
+  price: number;
+  staleness?: InputStaleness;
+}
+
+export interface BacktestRules {
+  longAbove: number; // go long when the index is at or above this level
+  flatBelow: number; // go flat when the index drops below this level
+  shortBelow?: number; // optional: go short below this level
+  feeBps: number; // cost per unit of position change, in basis points
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  cagr: number;
+  maxDrawdown: number;
+  sharpe: number;
+  sortino: number;
+  hitRate: number;
+  turnover: number; // annualized sum of absolute position changes
+  exposure: number; // fraction of periods with a non-zero position
+  trades: number;
+}
+
+export interface BacktestEquityPoint {
+  timestamp: number;
+  date: string;
+  index: number;
+  price: number;
+  position: number; // -1, 0 or 1, decided at this close
+  strategy: number; // equity, starting at 1
+  buyAndHold: number;
+}
+
+export interface BacktestResult {
+  rules: BacktestRules;
+  start: string;
+  end: string;
+  periods: number;
+  strategy: BacktestMetrics;
+  buyAndHold: BacktestMetrics;
+  equityCurve: BacktestEquityPoint[];
+}
+
+export interface CorrelationEstimate {
+  horizon: number; // forward return horizon in days
+  correlation: number;
+  n: number; // paired observations
+  effectiveN: number; // adjusted for overlapping forward returns
+  pValue: number; // two-sided, from the Fisher z-transform on effectiveN
+  ciLow: number; // 95% confidence interval
+  ciHigh: number;
+}
+
+export interface RollingCorrelationPoint {
+  timestamp: number;
+  date: string;
+  correlation: number;
+}
+
+export interface RollingCorrelationSeries {
+  window: number; // days
+  points: RollingCorrelationPoint[];
+}
+
+export interface AnalyticsResult {
+  start: string;
+  end: string;
+  horizon: number;
+  overall: CorrelationEstimate; // index vs forward returns at the chosen horizon
+  rolling: RollingCorrelationSeries[];
+  leadLag: CorrelationEstimate[]; // one entry per horizon, 1 to maxLag days ahead
+  bestLag: CorrelationEstimate | null; // strongest significant horizon, if any
+}
+
+/**
+ * Condition an alert watches; it fires on the evaluation where the condition becomes true
+ */
+export type AlertCondition =
+  | { type: 'threshold'; level: number; direction: 'above' | 'below' } // index crosses a level
+  | { type: 'interpretation'; to: IndexInterpretation; from?: IndexInterpretation } // band change
+  | { type: 'factor'; factorId: string; zScore: number } // |factor score| reaches zScore
+  | { type: 'change'; points: number }; // |index change since the last daily close| reaches points
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string }
+  | { type: 'browser' }; // picked up by open dashboards as desktop notifications
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  profile?: string; // index profile to watch; the default profile when omitted
+  condition: AlertCondition;
+  channels: AlertChannel[];
+  enabled: boolean;
+}
+
+/**
+ * What the engine remembers about an evaluation, to detect the next transition
+ */
+export interface AlertSnapshot {
+  timestamp: number;
+  date: string;
+  profile: string;
+  index: number;
+  interpretation: IndexInterpretation;
+  change: number | null; // index points since the last daily close
+  factorScores: Record<string, number>;
+}
+
+export interface AlertDelivery {
+  channel: AlertChannel['type'];
+  ok: boolean;
+  error?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  timestamp: number;
+  message: string;
+  snapshot: AlertSnapshot;
+  deliveries: AlertDelivery[];
+}
+
+export type QualityCheck = 'missing' | 'gap' | 'non_positive' | 'outlier' | 'stale' | 'placeholder' | 'config';
+
+export interface QualityIssue {
+  input: string; // series or factor the issue is about, e.g. "WALCL" or "pmi"
+  check: QualityCheck;
+  severity: 'warning' | 'error'; // errors mean the index was computed from degraded inputs
+  message: string;
+  date?: string; // observation the issue refers to
+}
+
+export interface DataQuality {
+  ok: boolean; // no issues at all
+  degraded: boolean; // at least one error
+  issues: QualityIssue[];
+}
+
+/**
+ * Last observation of an input series, and when the store last synced it
+ */
+export interface DataVintage {
+  lastDate: string | null;
+  syncedAt: number | null; // null for series that don't come from the store
+}
+
+/**
+ * Everything the live index said on a given day, as recorded at the time
+ */
+export interface IndexSnapshot {
+  date: string; // UTC day of the live price
+  recordedAt: number;
+  profile: string;
+  configVersion: string; // hash of the config, changes whenever the formula does
+  config: IndexConfig;
   bitcoinPrice: BitcoinPrice;
+  directionIndex: BitcoinDirectionIndex;
+  liquidity: LiquidityData;
+  pmi: ISMPMIData;
+  staleness: InputStaleness;
+  quality: DataQuality;
+  vintages: Record<string, DataVintage>; // keyed by input, e.g. "WALCL" or "btc"
+}
+
+/**
+ * A recorded snapshot next to the history replay for the same day
+ */
+export interface SnapshotComparison {
+  date: string;
+  recordedAt: number;
+  profile: string;
+  configVersion: string;
+  recordedIndex: number;
+  recomputedIndex: number | null; // null when the history has no close for the day yet
+  difference: number | null; // recomputed minus recorded, in index points
+  recordedPrice: number;
+  closePrice: number | null;
+  factorDifferences: Record<string, number>; // recomputed minus recorded score, per factor
+}
+
+/**
+ * Live index of one asset, for side-by-side comparison across assets
+ */
+export interface AssetIndexReading {
+  asset: string;
+  symbol: string;
+  name: string;
+  price: AssetPrice | null;
+  directionIndex: BitcoinDirectionIndex | null;
+  change: number | null; // index points since the last daily close
+  error?: string; // set when this asset couldn't be scored
+}
+
+/**
+ * Latest reading of one on-chain factor, with its z-score against its own history
+ */
+export interface OnChainReading {
+  id: string; // factor id
+  label: string;
+  description: string;
+  date: string | null;
+  value: number | null; // after the factor's transform (e.g. 7-day sum, 30-day % change)
+  zScore: number | null;
+  normalized: number | null; // -1 to 1, bullish positive
+  reading: string | null;
+  error?: string; // set when the metric couldn't be loaded
+}
+
+/**
+ * Derivatives positioning of an asset on one day
+ * `crowding` is the mean z-score of annualized funding, annualized quarterly basis and the 7-day
+ * change in open interest, each against its own history; positive means crowded longs
+ */
+export interface PositioningPoint {
+  date: string;
+  fundingRate: number; // mean perpetual funding per 8h interval (0.0001 = 0.01%)
+  annualizedFunding: number; // %
+  openInterest: number | null; // USD
+  openInterestChange: number | null; // % over 7 days
+  basis: number | null; // annualized quarterly futures basis, %
+  crowding: number | null; // σ; null until a signal has enough history
+}
+
+/**
+ * Override of one input: a target level or a change from the latest reading (not both)
+ */
+export interface ScenarioAdjustment {
+  value?: number;
+  change?: number;
+}
+
+/**
+ * What-if inputs applied on top of the latest readings
+ * Liquidity components are keyed by component id (fed, tga, rrp, and ecb, boj, pboc in the
+ * global model) and given as balances in millions of USD, e.g. `{ rrp: { value: 0 } }`
+ */
+export interface ScenarioOverrides {
+  liquidity?: Record<string, ScenarioAdjustment>;
+  pmi?: ScenarioAdjustment;
+}
+
+/**
+ * A named set of overrides saved for later comparison
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  profile?: string; // index profile to score with; the default profile when omitted
+  overrides: ScenarioOverrides;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Inputs and index on one side of a scenario comparison
+ */
+export interface ScenarioState {
   liquidity: LiquidityData;
   pmi: ISMPMIData;
   directionIndex: BitcoinDirectionIndex;
-  correlation?: number; // correlation between index and BTC price over time
 }
 
+export interface ScenarioResult {
+  name?: string;
+  profile: string;
+  asOf: string; // date of the latest readings the overrides were applied to
+  baseline: ScenarioState;
+  scenario: ScenarioState;
+  indexChange: number; // scenario index minus baseline index
+}
+
+/**
+ * Last run of one source of the background refresh worker
+ */
+export interface RefreshSourceStatus {
+  id: string;
+  label: string;
+  cadence: string; // e.g. 'every minute', 'weekly'
+  lastAttemptAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null; // error of the last attempt; null once it succeeded
+  lastDate: string | null; // latest observation stored by the last successful refresh
+  overdue: boolean; // no successful refresh within twice the cadence
+}
+
+/**
+ * State of a streaming price feed: 'live' once ticks flow, 'reconnecting' while the upstream
+ * connection is being re-established, 'closed' when it is gone for good
+ */
+export type LiveStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'closed';
@@ -0,0 +1,62 @@
+import { FREDData } from "./types";
+
+export const THOUSAND = 1e3;
+export const MILLION = 1e6;
+export const BILLION = 1e9;
+export const TRILLION = 1e12;
+
+const SCALE_WORDS: Record<string, number> = {
+  thousand: THOUSAND,
+  million: MILLION,
+  billion: BILLION,
+  trillion: TRILLION,
+};
+
+const CURRENCY_WORDS: Record<string, string> = {
+  "u.s. dollars": "USD",
+  "us dollars": "USD",
+  dollars: "USD",
+  euros: "EUR",
+  yen: "JPY",
+  "japanese yen": "JPY",
+  yuan: "CNY",
+  "chinese yuan": "CNY",
+};
+
+/**
+ * Currency and scale of a FRED units label, e.g. "Billions of U.S. Dollars" or "100 Million Yen"
+ * Labels that aren't a plain currency amount (indexes, percents, exchange rates) give neither
+ */
+export function parseFREDUnits(units: string): { currency?: string; scale?: number } {
+  const match = units
+    .trim()
+    .toLowerCase()
+    .match(/^(?:([\d,]+)\s+)?(?:(thousand|million|billion|trillion)s?\s+)?(?:of\s+)?(.+)$/);
+  const currency = match && CURRENCY_WORDS[match[3]];
+  if (!match || !currency) return {};
+
+  const multiple = match[1] ? parseInt(match[1].replace(/,/g, ""), 10) : 1;
+  const scale = multiple * (match[2] ? SCALE_WORDS[match[2]] : 1);
+  return { currency, scale };
+}
+
+/**
+ * Convert observations from one scale to another, e.g. billions (1e9) to millions (1e6)
+ */
+export function rescale<T extends FREDData>(observations: T[], from: number, to: number): T[] {
+  if (from === to) return observations;
+  return observations.map((obs) => ({ ...obs, value: (obs.value * from) / to }));
+}
+
+/**
+ * Short form of an amount given in units of `scale`, e.g. 5_712_345 millions as "$5.7T"
+ */
+export function formatAmount(value: number, scale: number = 1, currency: string = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    notation: "compact",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+  }).format(value * scale);
+}
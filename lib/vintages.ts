@@ -0,0 +1,140 @@
+import { buildLiquidityEntries, LiquidityEntry, US_LIQUIDITY_COMPONENTS } from "./liquidity";
+import { getFREDVintagesInMillions, getFREDVintagesInMillionsSince } from "./series-catalog";
+import {
+  FREDData,
+  FREDVintageObservation,
+  LiquidityModel,
+  LiquidityRevision,
+  LiquidityRevisionReport,
+} from "./types";
+import { MILLION } from "./units";
+
+// Revisions smaller than this (millions of USD) are rounding noise
+const REVISION_TOLERANCE = 1e-6;
+
+/**
+ * ALFRED vintages of the US liquidity components, in millions of USD
+ */
+export interface USLiquidityVintages {
+  fedData: FREDVintageObservation[];
+  tgaData: FREDVintageObservation[];
+  rrpData: FREDVintageObservation[];
+}
+
+/**
+ * Every vintage of the Fed balance sheet, TGA and RRP
+ * `since` keeps the vintages covering the Fed dates from then on, the same range for all three
+ */
+export async function fetchUSLiquidityVintages(since?: string): Promise<USLiquidityVintages> {
+  const [fedData, tgaData, rrpData] = await Promise.all(
+    US_LIQUIDITY_COMPONENTS.map((spec) =>
+      since === undefined
+        ? getFREDVintagesInMillions(spec.seriesId)
+        : getFREDVintagesInMillionsSince(spec.seriesId, since)
+    )
+  );
+  return { fedData, tgaData, rrpData };
+}
+
+/**
+ * A series as FRED published it on `date`: each observation's value in the vintage current
+ * that day, leaving out observations first published later
+ */
+export function asKnownOn(vintages: FREDVintageObservation[], date: string): FREDData[] {
+  return vintages
+    .filter((obs) => obs.realtimeStart <= date && date <= obs.realtimeEnd)
+    .map((obs) => ({ date: obs.date, value: obs.value }));
+}
+
+/**
+ * Liquidity readings as they could have been computed on `date`, from the vintages current then
+ * Non-US components of the global model have no vintages and keep their latest values
+ */
+export function liquidityEntriesAsKnownOn(
+  vintages: USLiquidityVintages,
+  date: string,
+  globalComponents: Record<string, FREDData[]> = {},
+  model: LiquidityModel = "us"
+): LiquidityEntry[] {
+  return buildLiquidityEntries(
+    asKnownOn(vintages.fedData, date),
+    asKnownOn(vintages.tgaData, date),
+    asKnownOn(vintages.rrpData, date),
+    globalComponents,
+    model
+  );
+}
+
+/**
+ * Date each observation of a series was first published
+ */
+function firstPublished(vintages: FREDVintageObservation[]): Map<string, string> {
+  const dates = new Map<string, string>();
+  for (const obs of vintages) {
+    const known = dates.get(obs.date);
+    if (!known || obs.realtimeStart < known) dates.set(obs.date, obs.realtimeStart);
+  }
+  return dates;
+}
+
+/**
+ * How far each US liquidity reading dated on or after `since` moved from its first release to
+ * the vintage current on `asOf`
+ * A reading's first release is the one computable once every component it uses was published;
+ * readings older than the first vintage ALFRED kept compare against that vintage instead
+ */
+export function liquidityRevisionReport(
+  vintages: USLiquidityVintages,
+  since: string = "",
+  asOf: string = new Date().toISOString().split("T")[0]
+): LiquidityRevisionReport {
+  const published: Record<string, Map<string, string>> = {
+    fed: firstPublished(vintages.fedData),
+    tga: firstPublished(vintages.tgaData),
+    rrp: firstPublished(vintages.rrpData),
+  };
+
+  const revisions = liquidityEntriesAsKnownOn(vintages, asOf)
+    .filter((entry) => entry.date >= since)
+    .flatMap((entry): LiquidityRevision[] => {
+      const releaseDates = Object.entries(entry.components).map(([id, component]) =>
+        published[id]?.get(component.date)
+      );
+      if (releaseDates.some((date) => date === undefined)) return [];
+      const firstKnown = (releaseDates as string[]).sort()[releaseDates.length - 1];
+
+      const first = liquidityEntriesAsKnownOn(vintages, firstKnown).find(
+        (candidate) => candidate.date === entry.date
+      );
+      if (!first) return [];
+
+      const components: Record<string, number> = {};
+      for (const [id, component] of Object.entries(entry.components)) {
+        components[id] = component.value - (first.components[id]?.value ?? 0);
+      }
+      return [
+        {
+          date: entry.date,
+          firstKnown,
+          firstRelease: first.value,
+          latest: entry.value,
+          revision: entry.value - first.value,
+          components,
+        },
+      ];
+    });
+
+  const absRevisions = revisions.map((r) => Math.abs(r.revision));
+  return {
+    asOf,
+    scale: MILLION,
+    readings: revisions.length,
+    revised: absRevisions.filter((revision) => revision > REVISION_TOLERANCE).length,
+    meanAbsRevision:
+      absRevisions.length > 0
+        ? absRevisions.reduce((sum, revision) => sum + revision, 0) / absRevisions.length
+        : 0,
+    maxAbsRevision: absRevisions.length > 0 ? Math.max(...absRevisions) : 0,
+    revisions,
+  };
+}
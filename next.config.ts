@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // ws loads its optional native addons at runtime, which bundling breaks
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;